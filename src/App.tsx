@@ -6,6 +6,9 @@ import { systemInitializer } from './services/SystemInitializer'
 import { starSystemService } from './services/StarSystemService'
 import { ObjectType, CelestialObject } from './models/StarSystemTypes'
 import { systemDebugger } from './utils/SystemDebugger'
+import { decodeSharedRoute, isRouteLink, parseRouteLink, planSharedRoute } from './utils/routeSharing'
+import { generateRouteInstructions, formatDistance, formatDuration, RouteInstruction } from './utils/routeInstructions'
+import { RoutePlan } from './utils/routePlanner'
 
 function App() {
   const [count, setCount] = useState(0)
@@ -15,6 +18,10 @@ function App() {
   const [planets, setPlanets] = useState<CelestialObject[]>([])
   const [jumpPoints, setJumpPoints] = useState<CelestialObject[]>([])
   const [stations, setStations] = useState<CelestialObject[]>([])
+  const [routeHash, setRouteHash] = useState(() => window.location.hash)
+  const [sharedRoute, setSharedRoute] = useState<RoutePlan | null>(null)
+  const [routeInstructions, setRouteInstructions] = useState<RouteInstruction[]>([])
+  const [routeError, setRouteError] = useState<string | null>(null)
 
   useEffect(() => {
     const loadStarSystem = async () => {
@@ -48,6 +55,41 @@ function App() {
     loadStarSystem()
   }, [])
 
+  // Follow route links opened while the app is running
+  useEffect(() => {
+    const handleHashChange = () => setRouteHash(window.location.hash)
+    window.addEventListener('hashchange', handleHashChange)
+    return () => window.removeEventListener('hashchange', handleHashChange)
+  }, [])
+
+  // Open the shared route once the systems are loaded
+  useEffect(() => {
+    if (!systemLoaded || !isRouteLink(routeHash)) {
+      setSharedRoute(null)
+      setRouteInstructions([])
+      setRouteError(null)
+      return
+    }
+
+    try {
+      const routeCode = parseRouteLink(routeHash)
+      if (!routeCode) {
+        throw new Error('Malformed route link')
+      }
+
+      // The app doesn't load alerts yet, so the route carries no safety information
+      const route = planSharedRoute(decodeSharedRoute(routeCode), [])
+      setSharedRoute(route)
+      setRouteInstructions(generateRouteInstructions(route))
+      setRouteError(null)
+    } catch (error) {
+      console.error('Failed to open shared route:', error)
+      setSharedRoute(null)
+      setRouteInstructions([])
+      setRouteError(error instanceof Error ? error.message : 'Unknown error opening route')
+    }
+  }, [systemLoaded, routeHash])
+
   return (
     <>
       <div>
@@ -70,6 +112,22 @@ function App() {
               ? `Error loading star system: ${systemError}` 
               : 'Loading star system data...'}
         </p>
+        {routeError && (
+          <p className="route-error">Could not open shared route: {routeError}</p>
+        )}
+        {sharedRoute && (
+          <div className="shared-route">
+            <h3>Shared Route</h3>
+            <p>
+              {formatDistance(sharedRoute.totalDistance)}, ~{formatDuration(sharedRoute.totalTime)}
+            </p>
+            <ol className="route-instructions">
+              {routeInstructions.map(instruction => (
+                <li key={instruction.step}>{instruction.text}</li>
+              ))}
+            </ol>
+          </div>
+        )}
         {systemStats && (
           <div className="system-stats">
             <h3>System Statistics</h3>
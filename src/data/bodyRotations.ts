@@ -0,0 +1,34 @@
+import { BodyRotation } from '../models/StarSystemTypes';
+
+/**
+ * Server time (ms) at which every body is at its rotationOffset
+ */
+export const ROTATION_EPOCH = Date.UTC(2020, 0, 1);
+
+/**
+ * Rotation periods of planets and moons, overlaid on the system extracts
+ * which don't contain them. Keyed by object ID.
+ * Periods are approximate day lengths; offsets are 0 until calibrated against in-game observations.
+ */
+export const BODY_ROTATIONS: Record<string, BodyRotation> = {
+  // Hurston and moons
+  stanton1: { rotationPeriod: 2.48, rotationOffset: 0 },
+  stanton1a: { rotationPeriod: 5.5, rotationOffset: 0 },
+  stanton1b: { rotationPeriod: 2.6, rotationOffset: 0 },
+  stanton1c: { rotationPeriod: 4.8, rotationOffset: 0 },
+  stanton1d: { rotationPeriod: 1.96, rotationOffset: 0 },
+  // Crusader and moons
+  stanton2: { rotationPeriod: 5.0, rotationOffset: 0 },
+  stanton2a: { rotationPeriod: 4.45, rotationOffset: 0 },
+  stanton2b: { rotationPeriod: 2.48, rotationOffset: 0 },
+  stanton2c: { rotationPeriod: 1.82, rotationOffset: 0 },
+  // ArcCorp and moons
+  stanton3: { rotationPeriod: 3.1, rotationOffset: 0 },
+  stanton3a: { rotationPeriod: 6.4, rotationOffset: 0 },
+  stanton3b: { rotationPeriod: 6.3, rotationOffset: 0 },
+  // microTech and moons
+  stanton4: { rotationPeriod: 4.12, rotationOffset: 0 },
+  stanton4a: { rotationPeriod: 4.59, rotationOffset: 0 },
+  stanton4b: { rotationPeriod: 3.16, rotationOffset: 0 },
+  stanton4c: { rotationPeriod: 3.43, rotationOffset: 0 }
+};
@@ -0,0 +1,37 @@
+import { StationService } from '../models/StarSystemTypes';
+
+/**
+ * Services offered at each station, overlaid on the system extracts
+ * which don't contain them. Keyed by object ID; stations not listed offer none.
+ */
+export const STATION_SERVICES: Record<string, StationService[]> = {
+  // Low orbit stations
+  'station_leo_stanton1.551af60b-7727-4936-acc7-763d25d7a1de_RR_HUR_LEO': ['refuel', 'repair', 'rearm'], // Everus Harbor
+  station_leo_stanton2_RR_CRU_LEO: ['refuel', 'repair', 'rearm'], // Port Olisar
+  station_leo_stanton3_RR_ARC_LEO: ['refuel', 'repair', 'rearm'], // Baijini Point
+  station_leo_stanton4_RR_MIC_LEO: ['refuel', 'repair', 'rearm'], // Port Tressler
+  // Hurston rest stops
+  station_reststop_stanton1_l1_RR_HUR_L1: ['refuel', 'repair', 'rearm'],
+  station_reststop_stanton1_l2_RR_HUR_L2: ['refuel', 'repair', 'rearm'],
+  station_reststop_stanton1_l3_RR_HUR_L3: ['refuel', 'repair', 'rearm'],
+  station_reststop_stanton1_l4_RR_HUR_L4: ['refuel', 'repair', 'rearm'],
+  station_reststop_stanton1_l5_RR_HUR_L5: ['refuel', 'repair', 'rearm'],
+  // Crusader rest stops
+  station_reststop_stanton2_l1_RR_CRU_L1: ['refuel', 'repair', 'rearm'],
+  station_reststop_stanton2_l4_RR_CRU_L4: ['refuel', 'repair', 'rearm'],
+  station_reststop_stanton2_l5_RR_CRU_L5: ['refuel', 'repair', 'rearm'],
+  // ArcCorp rest stops
+  station_reststop_stanton3_l1_RR_ARC_L1: ['refuel', 'repair', 'rearm'],
+  station_reststop_stanton3_l2_RR_ARC_L2: ['refuel', 'repair', 'rearm'],
+  station_reststop_stanton3_l3_RR_ARC_L3: ['refuel', 'repair', 'rearm'],
+  station_reststop_stanton3_l4_RR_ARC_L4: ['refuel', 'repair', 'rearm'],
+  station_reststop_stanton3_l5_RR_ARC_L5: ['refuel', 'repair', 'rearm'],
+  // microTech rest stops
+  station_reststop_stanton4_l1_RR_MIC_L1: ['refuel', 'repair', 'rearm'],
+  station_reststop_stanton4_l2_RR_MIC_L2: ['refuel', 'repair', 'rearm'],
+  station_reststop_stanton4_l3_RR_MIC_L3: ['refuel', 'repair', 'rearm'],
+  station_reststop_stanton4_l4_RR_MIC_L4: ['refuel', 'repair', 'rearm'],
+  station_reststop_stanton4_l5_RR_MIC_L5: ['refuel', 'repair', 'rearm'],
+  // Other stations
+  station_motel_stanton2c_GrimHEX: ['refuel', 'repair', 'rearm']
+};
@@ -0,0 +1,39 @@
+import { SystemDefinition } from '../models/StarSystemTypes';
+
+/**
+ * Known star systems and the naming rules of their extracts.
+ * Only Stanton's extract ships with the app. The others are registered for their jump point
+ * names and get a dataPath once their extract is added to public/data, so startup doesn't
+ * fetch files that aren't there.
+ */
+export const STANTON_DEFINITION: SystemDefinition = {
+  name: 'Stanton',
+  starId: 'stantonstar',
+  bodyPrefix: 'stanton',
+  dataPath: '/data/stanton_extract.json'
+};
+
+export const PYRO_DEFINITION: SystemDefinition = {
+  name: 'Pyro',
+  starId: 'pyrostar',
+  bodyPrefix: 'pyro'
+};
+
+export const MAGNUS_DEFINITION: SystemDefinition = {
+  name: 'Magnus',
+  starId: 'magnusstar',
+  bodyPrefix: 'magnus'
+};
+
+export const TERRA_DEFINITION: SystemDefinition = {
+  name: 'Terra',
+  starId: 'terrastar',
+  bodyPrefix: 'terra'
+};
+
+export const SYSTEM_DEFINITIONS: SystemDefinition[] = [
+  STANTON_DEFINITION,
+  PYRO_DEFINITION,
+  MAGNUS_DEFINITION,
+  TERRA_DEFINITION
+];
@@ -11,6 +11,8 @@ export interface CelestialObject {
   obstructionRadius: number;
   atmoHeight: number;
   system_entity_name: string;
+  computed?: boolean; // True if the service computed this object instead of reading it from the extract
+  positionError?: number; // Estimated error of a computed position in meters
 }
 
 // Position coordinates
@@ -28,6 +30,21 @@ export interface Rotation {
   z: number;
 }
 
+// Position and orientation of an object in the system's frame (relative to the star)
+export interface WorldTransform {
+  position: Position;
+  rotation: Rotation;
+}
+
+// Spin of a planet or moon around its local z axis
+export interface BodyRotation {
+  rotationPeriod: number; // Length of a day in hours
+  rotationOffset: number; // Rotation angle in degrees at the rotation epoch
+}
+
+// Services offered to ships docked at a station
+export type StationService = 'refuel' | 'repair' | 'rearm';
+
 // Types of celestial objects
 export enum ObjectType {
   Star = "Star",
@@ -110,6 +127,37 @@ export interface StarSystem {
   objectsByType: Map<ObjectType, CelestialObject[]>;
 }
 
+// Rules used to load, infer and repair a single system extract
+export interface SystemDefinition {
+  name: string; // Display name of the system, e.g. "Stanton"
+  starId: string; // ID of the star object in the extract
+  bodyPrefix: string; // Planet IDs are `${bodyPrefix}${n}`, Lagrange points `${bodyPrefix}${n}_l${m}`
+  dataPath?: string; // Location of the extract when served from /public, unset if it doesn't ship with the app
+}
+
+// Link between a jump point and its counterpart in the destination system
+export interface JumpPointLink {
+  systemName: string;
+  jumpPointId: string;
+  destinationSystem: string;
+  destinationJumpPointId: string | null; // null if the destination system isn't loaded
+}
+
+// Kind of volume a region covers
+export type RegionKind = 'planet' | 'moon' | 'station' | 'lagrange' | 'jumpPoint' | 'deepSpace';
+
+// Volume of space alerts and predictions are grouped by
+export interface Region {
+  id: string; // Object ID for volumes around objects, a cell ID for deep space
+  kind: RegionKind;
+  systemName: string;
+  objectId: string | null; // Object the region surrounds, null for deep space
+  displayName: string;
+  center: Position; // Absolute position, relative to the system's star
+  radius: number; // Meters, half the cell size for deep space
+  parentRegionId: string | null; // Smallest larger region containing this one
+}
+
 // Distance units for conversion
 export enum DistanceUnit {
   Kilometer = "km",
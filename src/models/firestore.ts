@@ -8,6 +8,7 @@ export enum FirestoreCollection {
   SHIPS = 'ships',
   PREDICTIONS = 'predictions',
   SYSTEM_CONFIG = 'system_config',
+  REPUTATION_EVENTS = 'reputation_events',
 }
 
 // User document in Firestore
@@ -26,6 +27,7 @@ export interface FirestoreUser {
     showAllAlerts: boolean;
     alertNotifications: boolean;
     defaultShip?: string;
+    currentShard?: string; // Shard the user is playing on, unset if unknown
   };
   reportedAlerts: string[];
   savedRoutes: string[];
@@ -52,6 +54,21 @@ export interface FirestoreAlert {
   lastUpdated: number;
 }
 
+// Reasons a user's reputation changed
+export type ReputationChangeReason = 'alertConfirmed' | 'alertDisputed';
+
+// Reputation change document in Firestore, one per settled alert
+export interface FirestoreReputationEvent {
+  id: string; // alertId_userId, so an alert can't be settled twice
+  userId: string;
+  alertId: string;
+  reason: ReputationChangeReason;
+  change: number;
+  reputationBefore: number;
+  reputationAfter: number;
+  createdAt: number;
+}
+
 // Route document in Firestore
 export interface FirestoreRoute {
   id: string;
@@ -81,6 +98,10 @@ export interface FirestoreShip {
   fuelCapacity: number;
   fuelConsumption: number;
   quantumSpeed: number; 
+  quantumAcceleration?: number; // m/s²
+  quantumDeceleration?: number; // m/s²
+  quantumSpoolTime?: number; // Seconds
+  quantumCooldownTime?: number; // Seconds
   scmSpeed: number;
   cargoCapacity: number;
   price: number;
@@ -176,5 +197,10 @@ export const FIRESTORE_INDEXES: FirestoreIndex[] = [
     collection: FirestoreCollection.PREDICTIONS,
     fields: ['regionId', 'expiresAt'],
     queryPattern: 'Get active predictions for a region'
+  },
+  {
+    collection: FirestoreCollection.REPUTATION_EVENTS,
+    fields: ['userId', 'createdAt'],
+    queryPattern: 'Get the reputation history of a user ordered by time'
   }
 ]; 
\ No newline at end of file
@@ -152,6 +152,7 @@ export interface UserSettings {
   showAllAlerts: boolean;
   alertNotifications: boolean;
   defaultShip?: string;
+  currentShard?: string; // Shard the user is playing on, unset if unknown
 }
 
 // Ship specifications for route planning
@@ -163,6 +164,10 @@ export interface ShipSpecification {
   fuelCapacity: number;
   fuelConsumption: number;
   quantumSpeed: number;
+  quantumAcceleration?: number; // m/s², defaults to a generic drive
+  quantumDeceleration?: number; // m/s², defaults to the acceleration
+  quantumSpoolTime?: number; // Seconds before the jump starts
+  quantumCooldownTime?: number; // Seconds before the drive can spool again
   scmSpeed: number;
   cargoCapacity: number;
 }
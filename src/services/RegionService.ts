@@ -0,0 +1,312 @@
+import { CelestialObject, ObjectType, Position, Region, RegionKind, StarSystem } from '../models/StarSystemTypes';
+import { StarSystemService, starSystemService } from './StarSystemService';
+import { calculateDistance } from '../utils/stantonParser';
+import { getObjectDisplayName } from '../utils/objectNames';
+
+/**
+ * Sphere of influence of a planet as a multiple of its radius, before it's grown to hold its moons
+ */
+const PLANET_SOI_FACTOR = 20;
+
+/**
+ * Sphere of influence of a moon as a multiple of its radius
+ */
+const MOON_SOI_FACTOR = 10;
+
+/**
+ * Largest share of the distance to the nearest neighbouring body a sphere of influence may cover,
+ * so neighbouring spheres never overlap
+ */
+const SOI_NEIGHBOUR_SHARE = 0.45;
+
+/**
+ * Radius of the bubble around a station in meters
+ */
+const STATION_REGION_RADIUS = 50000;
+
+/**
+ * Radius of the bubble around a Lagrange point in meters
+ */
+const LAGRANGE_REGION_RADIUS = 100000000;
+
+/**
+ * Radius of the bubble around a jump point in meters
+ */
+const JUMP_POINT_REGION_RADIUS = 10000000;
+
+/**
+ * Edge length of the deep-space cells covering everything else, in meters
+ */
+const DEEP_SPACE_CELL_SIZE = 10000000000;
+
+/**
+ * Region kind of each object type that gets a region
+ */
+const REGION_KINDS: Partial<Record<ObjectType, RegionKind>> = {
+  [ObjectType.Planet]: 'planet',
+  [ObjectType.Moon]: 'moon',
+  [ObjectType.Station]: 'station',
+  [ObjectType.SpaceStation]: 'station',
+  [ObjectType.RestStop]: 'station',
+  [ObjectType.LagrangePoint]: 'lagrange',
+  [ObjectType.JumpPoint]: 'jumpPoint'
+};
+
+/**
+ * Order of region kinds in the catalogue
+ */
+const CATALOGUE_ORDER: RegionKind[] = ['planet', 'moon', 'lagrange', 'station', 'jumpPoint', 'deepSpace'];
+
+/**
+ * Partitions a loaded system into regions used to group alerts and predictions:
+ * spheres of influence around planets and moons, bubbles around stations,
+ * Lagrange points and jump points, and deep-space cells for everything else.
+ * Regions are derived from the system hierarchy and rebuilt when new data is loaded.
+ */
+export class RegionService {
+  private system: StarSystemService;
+  private builtFor: StarSystem | null = null;
+  private volumes: Region[] = []; // Regions around objects, smallest first
+  private regionsById = new Map<string, Region>();
+  private catalogue: Region[] = [];
+
+  constructor(system: StarSystemService = starSystemService) {
+    this.system = system;
+  }
+
+  /**
+   * Get the region containing a position
+   * The smallest region around an object wins, positions outside all of them fall in a deep-space cell
+   * @param position Absolute position, relative to the system's star
+   */
+  public regionFor(position: Position): Region {
+    this.ensureBuilt();
+
+    const volume = this.volumes.find(region => calculateDistance(region.center, position) <= region.radius);
+    return volume || this.getDeepSpaceCell(position);
+  }
+
+  /**
+   * Get the ID of the region containing a position
+   * @param position Absolute position, relative to the system's star
+   */
+  public regionIdFor(position: Position): string {
+    return this.regionFor(position).id;
+  }
+
+  /**
+   * Get a region by its ID, including deep-space cells outside the catalogue
+   */
+  public getRegion(regionId: string): Region | undefined {
+    this.ensureBuilt();
+
+    const region = this.regionsById.get(regionId);
+    if (region) {
+      return region;
+    }
+
+    const match = regionId.match(getDeepSpacePattern(this.system));
+    return match ? this.createDeepSpaceCell(Number(match[1]), Number(match[2]), Number(match[3])) : undefined;
+  }
+
+  /**
+   * Get every region around an object, plus the deep-space cells holding them
+   * Ordered by kind (planets first, deep space last), then by name
+   */
+  public getRegions(): Region[] {
+    this.ensureBuilt();
+    return this.catalogue;
+  }
+
+  /**
+   * Get the regions directly inside another region, e.g. the moons of a planet
+   */
+  public getChildRegions(regionId: string): Region[] {
+    return this.getRegions().filter(region => region.parentRegionId === regionId);
+  }
+
+  /**
+   * Rebuild the regions if the system was (re)loaded since they were last built
+   */
+  private ensureBuilt(): void {
+    const starSystem = this.system.getStarSystem();
+    if (starSystem === this.builtFor) return;
+
+    this.builtFor = starSystem;
+    this.volumes = [];
+    this.regionsById.clear();
+    this.catalogue = [];
+    if (!starSystem) return;
+
+    for (const object of this.system.getAllObjects()) {
+      const region = this.createObjectRegion(object);
+      if (region) {
+        this.volumes.push(region);
+      }
+    }
+    this.volumes.sort((a, b) => a.radius - b.radius);
+
+    // Nest each region in the smallest larger one containing its center
+    for (const [index, region] of this.volumes.entries()) {
+      const parent = this.volumes
+        .slice(index + 1)
+        .find(candidate => candidate.radius > region.radius && calculateDistance(candidate.center, region.center) <= candidate.radius);
+      region.parentRegionId = parent ? parent.id : this.getDeepSpaceCell(region.center).id;
+      this.regionsById.set(region.id, region);
+    }
+
+    const cells = this.createCoveringCells();
+    for (const cell of cells) {
+      this.regionsById.set(cell.id, cell);
+    }
+
+    this.catalogue = [...this.volumes, ...cells].sort((a, b) =>
+      CATALOGUE_ORDER.indexOf(a.kind) - CATALOGUE_ORDER.indexOf(b.kind) ||
+      a.displayName.localeCompare(b.displayName)
+    );
+  }
+
+  /**
+   * Create the region around an object, or null for objects without one
+   */
+  private createObjectRegion(object: CelestialObject): Region | null {
+    const kind = REGION_KINDS[object.type];
+    const center = this.system.getAbsolutePosition(object.name);
+    if (!kind || !center) {
+      return null;
+    }
+
+    return {
+      id: object.name,
+      kind,
+      systemName: this.system.getSystemName(),
+      objectId: object.name,
+      displayName: getObjectDisplayName(this.system, object),
+      center,
+      radius: this.getRegionRadius(object, kind, center),
+      parentRegionId: null
+    };
+  }
+
+  /**
+   * Get the radius of the region around an object
+   */
+  private getRegionRadius(object: CelestialObject, kind: RegionKind, center: Position): number {
+    switch (kind) {
+      case 'planet':
+      case 'moon': {
+        const bodyRadius = object.size + object.atmoHeight;
+        let radius = bodyRadius * (kind === 'planet' ? PLANET_SOI_FACTOR : MOON_SOI_FACTOR);
+
+        // Planets hold the spheres of their moons
+        if (kind === 'planet') {
+          for (const moon of this.system.getChildrenOfObject(object.name)) {
+            const moonCenter = moon.type === ObjectType.Moon ? this.system.getAbsolutePosition(moon.name) : null;
+            if (moonCenter) {
+              const moonReach = calculateDistance(center, moonCenter) + this.getRegionRadius(moon, 'moon', moonCenter);
+              radius = Math.max(radius, moonReach);
+            }
+          }
+        }
+
+        const neighbourDistance = this.getNeighbourDistance(object, center);
+        return Math.max(Math.min(radius, neighbourDistance * SOI_NEIGHBOUR_SHARE), bodyRadius);
+      }
+      case 'station':
+        return STATION_REGION_RADIUS;
+      case 'lagrange':
+        return LAGRANGE_REGION_RADIUS;
+      case 'jumpPoint':
+        return JUMP_POINT_REGION_RADIUS;
+      default:
+        return DEEP_SPACE_CELL_SIZE / 2;
+    }
+  }
+
+  /**
+   * Distance to the nearest body a sphere of influence must not reach:
+   * other planets for a planet, the planet and sibling moons for a moon
+   */
+  private getNeighbourDistance(object: CelestialObject, center: Position): number {
+    const neighbours = object.type === ObjectType.Planet
+      ? this.system.getObjectsByType(ObjectType.Planet)
+      : [
+        ...this.system.getChildrenOfObject(object.parent).filter(sibling => sibling.type === ObjectType.Moon),
+        ...(this.system.getObjectById(object.parent) ? [this.system.getObjectById(object.parent)!] : [])
+      ];
+
+    let nearest = Infinity;
+    for (const neighbour of neighbours) {
+      if (neighbour.name === object.name) continue;
+      const position = this.system.getAbsolutePosition(neighbour.name);
+      if (position) {
+        nearest = Math.min(nearest, calculateDistance(center, position));
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * Create the deep-space cells holding at least one region around an object
+   * Empty cells are left out of the catalogue, but can still be looked up by ID
+   */
+  private createCoveringCells(): Region[] {
+    const cells = new Map<string, Region>();
+    for (const { center } of this.volumes) {
+      const cell = this.getDeepSpaceCell(center);
+      cells.set(cell.id, cell);
+    }
+    return Array.from(cells.values());
+  }
+
+  /**
+   * Get the deep-space cell containing a position
+   */
+  private getDeepSpaceCell(position: Position): Region {
+    return this.createDeepSpaceCell(
+      Math.floor(position.x / DEEP_SPACE_CELL_SIZE),
+      Math.floor(position.y / DEEP_SPACE_CELL_SIZE),
+      Math.floor(position.z / DEEP_SPACE_CELL_SIZE)
+    );
+  }
+
+  /**
+   * Create the deep-space cell with the given grid coordinates
+   */
+  private createDeepSpaceCell(i: number, j: number, k: number): Region {
+    return {
+      id: `${this.system.getDefinition().bodyPrefix}_deep_${i}_${j}_${k}`,
+      kind: 'deepSpace',
+      systemName: this.system.getSystemName(),
+      objectId: null,
+      displayName: `Deep space ${i}, ${j}, ${k}`,
+      center: {
+        x: (i + 0.5) * DEEP_SPACE_CELL_SIZE,
+        y: (j + 0.5) * DEEP_SPACE_CELL_SIZE,
+        z: (k + 0.5) * DEEP_SPACE_CELL_SIZE
+      },
+      radius: DEEP_SPACE_CELL_SIZE / 2,
+      parentRegionId: null
+    };
+  }
+}
+
+/**
+ * Check whether a region ID belongs to a system, without building the system's regions
+ * Regions around objects share the object's ID, deep-space cells carry the system's body prefix
+ * @param regionId The region ID, e.g. from an alert's location
+ * @param system The service holding the system
+ */
+export function isRegionInSystem(regionId: string, system: StarSystemService): boolean {
+  return Boolean(system.getObjectById(regionId)) || getDeepSpacePattern(system).test(regionId);
+}
+
+/**
+ * Pattern matching deep-space cell IDs of a system, e.g. stanton_deep_1_-2_0
+ */
+function getDeepSpacePattern(system: StarSystemService): RegExp {
+  return new RegExp(`^${system.getDefinition().bodyPrefix}_deep_(-?\\d+)_(-?\\d+)_(-?\\d+)$`);
+}
+
+// Create a singleton instance for easy import
+export const regionService = new RegionService();
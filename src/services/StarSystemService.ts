@@ -1,13 +1,106 @@
-import { CelestialObject, Position, ObjectType, StarSystem } from '../models/StarSystemTypes';
-import { calculateAbsolutePosition, generateOrbitPath } from '../utils/SpaceUtils';
+import { BodyRotation, CelestialObject, Position, Rotation, ObjectType, StarSystem, SystemDefinition, WorldTransform } from '../models/StarSystemTypes';
+import {
+  calculateAbsolutePosition,
+  calculateBodySpin,
+  calculateDistance,
+  generateOrbitPath,
+  IDENTITY_ROTATION,
+  invertQuaternion,
+  multiplyQuaternions,
+  rotatePosition
+} from '../utils/SpaceUtils';
+import { STANTON_DEFINITION } from '../data/systemDefinitions';
+import { OrbitalMarkers } from '../models/stanton';
+import { SpatialIndex } from '../utils/SpatialIndex';
+import { BODY_ROTATIONS, ROTATION_EPOCH } from '../data/bodyRotations';
+import { calculateLagrangePoint, estimateLagrangeErrors, KnownLagrangePoint } from '../utils/lagrangePoints';
+
+/**
+ * Object types fixed to the surface of their parent, which move as the parent spins
+ */
+const SURFACE_OBJECT_TYPES: ObjectType[] = [
+  ObjectType.LandingZone,
+  ObjectType.Outpost
+];
+
+/**
+ * Share of the parent's distance from the star from which an extract position is read as
+ * relative to the star. Offsets from a parent (moons, stations around a body) stay far below it.
+ */
+const STAR_FRAME_DISTANCE_RATIO = 0.1;
+
+/**
+ * Largest distance, as a share of the parent's stored offset, at which an extract position
+ * counts as a copy of its parent's own position (e.g. Grim HEX at Yela)
+ */
+const PARENT_POSITION_TOLERANCE = 0.01;
+
+/**
+ * Distance of orbital markers from their body's center, as a multiple of the
+ * body's radius including atmosphere (approximation of the in-game spacing)
+ */
+const ORBITAL_MARKER_RADIUS_FACTOR = 1.35;
+
+/**
+ * Local axis of each orbital marker, OM-1 to OM-6
+ */
+const ORBITAL_MARKER_AXES: Position[] = [
+  { x: 0, y: 0, z: 1 },
+  { x: 0, y: 0, z: -1 },
+  { x: 0, y: 1, z: 0 },
+  { x: 0, y: -1, z: 0 },
+  { x: 1, y: 0, z: 0 },
+  { x: -1, y: 0, z: 0 }
+];
 
 export class StarSystemService {
+  private definition: SystemDefinition;
   private systemData: Record<string, any> | null = null;
   private starSystem: StarSystem | null = null;
   private objectsById = new Map<string, CelestialObject>();
   private objectsByType = new Map<ObjectType, CelestialObject[]>();
   private objectsByParent = new Map<string, CelestialObject[]>();
+  private objectAliases = new Map<string, string>(); // Referenced IDs of objects the extract stores under another ID
+  private worldTransforms = new Map<string, WorldTransform>();
+  private spatialIndex: SpatialIndex<CelestialObject> | null = null;
   private starPosition: Position = { x: 0, y: 0, z: 0 }; // Origin for the star
+  private loadListeners: ((starSystem: StarSystem) => void)[] = [];
+
+  constructor(definition: SystemDefinition = STANTON_DEFINITION) {
+    this.definition = definition;
+  }
+
+  /**
+   * Get the naming rules this service loads its system with
+   */
+  public getDefinition(): SystemDefinition {
+    return this.definition;
+  }
+
+  /**
+   * Get the name of the system handled by this service
+   */
+  public getSystemName(): string {
+    return this.definition.name;
+  }
+
+  /**
+   * Get the loaded star system, or null if nothing has been loaded yet
+   */
+  public getStarSystem(): StarSystem | null {
+    return this.starSystem;
+  }
+
+  /**
+   * Register a function called every time system data has been loaded
+   * @returns A function removing the listener again
+   */
+  public onLoad(listener: (starSystem: StarSystem) => void): () => void {
+    this.loadListeners.push(listener);
+    return () => {
+      this.loadListeners = this.loadListeners.filter(existing => existing !== listener);
+    };
+  }
 
   /**
    * Load and parse the star system data from a JSON file
@@ -74,39 +167,36 @@ export class StarSystemService {
     this.objectsById.clear();
     this.objectsByType.clear();
     this.objectsByParent.clear();
+    this.objectAliases.clear();
+    this.worldTransforms.clear();
+    this.spatialIndex = null;
 
     // Create the inferred Lagrange points and planets if needed
     this.createInferredObjects();
 
     // First pass: create all objects and index them
     for (const [id, data] of Object.entries(this.systemData)) {
-      const celestialObject = this.createCelestialObject(id, data);
-      this.objectsById.set(id, celestialObject);
-      
-      // Index by type
-      const objectsOfType = this.objectsByType.get(celestialObject.type) || [];
-      objectsOfType.push(celestialObject);
-      this.objectsByType.set(celestialObject.type, objectsOfType);
-      
-      // Index by parent
-      const parent = celestialObject.parent;
-      const objectsWithParent = this.objectsByParent.get(parent) || [];
-      objectsWithParent.push(celestialObject);
-      this.objectsByParent.set(parent, objectsWithParent);
+      this.indexObject(this.createCelestialObject(id, data));
     }
 
     // Fix missing parent-child relationships
     this.fixParentChildRelationships();
 
-    // Find the star (usually named 'stantonstar' for Stanton system)
+    // Orbital markers aren't part of the extracts
+    this.generateOrbitalMarkers();
+
+    // Find the star (e.g. 'stantonstar' for the Stanton system)
     const star = this.findStar();
     if (!star) {
       throw new Error("Star not found in the system data");
     }
 
+    // The extracts store some positions in another frame than their parent's
+    this.resolvePositionFrames(star);
+
     // Create the star system object
     this.starSystem = {
-      name: "Stanton",
+      name: this.definition.name,
       star: star as any, // Type assertion as Star
       children: new Map(),
       objectsById: this.objectsById,
@@ -116,9 +206,129 @@ export class StarSystemService {
     // Build hierarchical relationships
     this.buildHierarchy();
 
+    for (const listener of this.loadListeners) {
+      listener(this.starSystem);
+    }
+
     return this.starSystem;
   }
 
+  /**
+   * Convert the extract positions that aren't relative to their parent into the parent's frame
+   * The extracts don't say which frame a position is in, so it's told from the position itself:
+   * moons, comm arrays and most stations are stored relative to their parent, Lagrange points,
+   * LEO stations, rest stops and landing zones relative to the star, and objects copying their
+   * parent's position (e.g. Grim HEX) in the frame the parent is stored in
+   */
+  private resolvePositionFrames(star: CelestialObject): void {
+    const visited = new Set<string>([star.name]);
+    
+    // Ancestor transforms are ordered from the parent up to the star
+    const resolveChildren = (parentId: string, ancestors: WorldTransform[]) => {
+      for (const child of this.objectsByParent.get(parentId) || []) {
+        if (visited.has(child.name)) continue;
+        visited.add(child.name);
+        
+        if (!child.computed) {
+          child.position = this.getPositionInParentFrame(child, ancestors);
+        }
+        resolveChildren(child.name, [this.composeTransform(child, ancestors[0]), ...ancestors]);
+      }
+    };
+    
+    resolveChildren(star.name, [{ position: this.starPosition, rotation: star.rotation }]);
+  }
+
+  /**
+   * Get an extract object's position relative to its parent
+   * @param object The object, with its position as read from the extract
+   * @param ancestors World transforms of its ancestors, from the parent up to the star
+   */
+  private getPositionInParentFrame(object: CelestialObject, ancestors: WorldTransform[]): Position {
+    const parent = ancestors[0];
+    const star = ancestors[ancestors.length - 1];
+    const origin: Position = { x: 0, y: 0, z: 0 };
+    const parentDistance = calculateDistance(parent.position, star.position);
+    const offset = calculateDistance(object.position, origin);
+    
+    // Objects further out than any offset around the parent are stored relative to the star,
+    // objects stored at their parent's own position share the frame the parent is stored in
+    const parentOffset: Position | undefined = this.systemData?.[object.parent]?.position;
+    let frame = parent;
+    if (parentDistance > 0 && offset >= parentDistance * STAR_FRAME_DISTANCE_RATIO) {
+      frame = star;
+    } else if (
+      parentOffset && ancestors.length > 1 &&
+      calculateDistance(object.position, parentOffset) <= calculateDistance(parentOffset, origin) * PARENT_POSITION_TOLERANCE
+    ) {
+      frame = ancestors[1];
+    }
+    if (frame === parent) {
+      return object.position;
+    }
+    
+    const position = calculateAbsolutePosition(object, frame.position, frame.rotation);
+    return rotatePosition({
+      x: position.x - parent.position.x,
+      y: position.y - parent.position.y,
+      z: position.z - parent.position.z
+    }, invertQuaternion(parent.rotation));
+  }
+
+  /**
+   * Add an object to the ID, type and parent indexes
+   */
+  private indexObject(celestialObject: CelestialObject): void {
+    this.objectsById.set(celestialObject.name, celestialObject);
+    
+    // Index by type
+    const objectsOfType = this.objectsByType.get(celestialObject.type) || [];
+    objectsOfType.push(celestialObject);
+    this.objectsByType.set(celestialObject.type, objectsOfType);
+    
+    // Index by parent
+    const parent = celestialObject.parent;
+    const objectsWithParent = this.objectsByParent.get(parent) || [];
+    objectsWithParent.push(celestialObject);
+    this.objectsByParent.set(parent, objectsWithParent);
+  }
+
+  /**
+   * Generate the six orbital markers (OM-1 to OM-6) of every planet and moon
+   * Markers sit on the body's local axes, so they follow its rotation
+   */
+  private generateOrbitalMarkers(): void {
+    const bodies = [
+      ...this.getObjectsByType(ObjectType.Planet),
+      ...this.getObjectsByType(ObjectType.Moon)
+    ];
+    
+    for (const body of bodies) {
+      const radius = (body.size + body.atmoHeight) * ORBITAL_MARKER_RADIUS_FACTOR;
+      if (radius <= 0) continue;
+      
+      ORBITAL_MARKER_AXES.forEach((axis, index) => {
+        const id = `${body.name}_om${index + 1}`;
+        if (this.objectsById.has(id)) return;
+        
+        this.indexObject({
+          name: id,
+          display_name: `${body.display_name} OM-${index + 1}`,
+          parent: body.name,
+          type: ObjectType.OrbitMarker,
+          position: { x: axis.x * radius, y: axis.y * radius, z: axis.z * radius },
+          rotation: IDENTITY_ROTATION,
+          size: 0,
+          arrivalRadius: 1000,
+          obstructionRadius: 0,
+          atmoHeight: 0,
+          system_entity_name: `Generated_${id}`,
+          computed: true
+        });
+      });
+    }
+  }
+
   /**
    * Create inferred objects like Lagrange points that might be referenced but not defined
    */
@@ -127,7 +337,7 @@ export class StarSystemService {
 
     // Scan for patterns in the data that suggest missing objects
     // For example, if a station references a lagrange point that doesn't exist
-    const lagrangePointPattern = /stanton(\d+)_l(\d+)/;
+    const lagrangePointPattern = this.getLagrangePointPattern();
     const inferredObjects: Record<string, any> = {};
     
     // First identify all the parents referenced in the data
@@ -139,6 +349,11 @@ export class StarSystemService {
       }
     }
     
+    // Lagrange point positions are computed from the planet's orbit,
+    // with an error estimate from the Lagrange points the extract does contain
+    const extractLagrangePoints = this.getExtractLagrangePoints();
+    const lagrangeErrors = estimateLagrangeErrors(this.getKnownLagrangePoints());
+    
     // Check if any referenced parent isn't defined
     for (const parentId of referencedParents) {
       if (!this.systemData[parentId]) {
@@ -146,8 +361,37 @@ export class StarSystemService {
         const match = parentId.match(lagrangePointPattern);
         if (match) {
           const planetNumber = match[1];
-          const lagrangeNumber = match[2];
-          const planetId = `stanton${planetNumber}`;
+          const lagrangeNumber = Number(match[2]);
+          const planetId = `${this.definition.bodyPrefix}${planetNumber}`;
+          const planet = this.systemData[planetId];
+          
+          // Use the extract's own Lagrange point rather than computing a second one
+          const extractId = extractLagrangePoints.get(`${planetId}_l${lagrangeNumber}`);
+          if (extractId) {
+            this.objectAliases.set(parentId, extractId);
+            continue;
+          }
+          
+          let position: Position = { x: 0, y: 0, z: 0 };
+          let positionError = 0;
+          if (planet?.position && lagrangeNumber >= 1 && lagrangeNumber <= 5) {
+            const planetPosition = this.getPositionRelativeToStar(planet.position);
+            const lagrangePosition = calculateLagrangePoint(planetPosition, lagrangeNumber);
+            
+            // Store the position relative to the (possibly rotated) planet
+            position = rotatePosition({
+              x: lagrangePosition.x - planetPosition.x,
+              y: lagrangePosition.y - planetPosition.y,
+              z: lagrangePosition.z - planetPosition.z
+            }, invertQuaternion(planet.rotation || IDENTITY_ROTATION));
+            positionError = lagrangeErrors[lagrangeNumber] * Math.sqrt(
+              planetPosition.x * planetPosition.x +
+              planetPosition.y * planetPosition.y +
+              planetPosition.z * planetPosition.z
+            );
+          } else {
+            console.warn(`Cannot compute position of ${parentId}, planet ${planetId} not found`);
+          }
           
           // Create an inferred lagrange point
           inferredObjects[parentId] = {
@@ -157,14 +401,14 @@ export class StarSystemService {
             name: parentId,
             obstructionRadius: 0.0,
             parent: planetId,
-            position: { x: 0, y: 0, z: 0 }, // Placeholder position
+            position,
             rotation: { w: 1, x: 0, y: 0, z: 0 },
             size: 1000.0,
             system_entity_name: `Inferred_${parentId}`,
-            type: "LagrangePoint"
+            type: "LagrangePoint",
+            computed: true,
+            positionError
           };
-          
-          console.log(`Created inferred Lagrange point: ${parentId}`);
         }
       }
     }
@@ -173,6 +417,71 @@ export class StarSystemService {
     for (const [id, data] of Object.entries(inferredObjects)) {
       this.systemData[id] = data;
     }
+    
+    // Attach the children of aliased Lagrange points to the extract's points
+    for (const data of Object.values(this.systemData)) {
+      const alias = data.parent && this.objectAliases.get(data.parent);
+      if (alias) {
+        data.parent = alias;
+      }
+    }
+  }
+
+  /**
+   * Map the Lagrange points present in the extract by their plain ID,
+   * e.g. stanton1_l2 -> lagrange_stanton1_l2
+   */
+  private getExtractLagrangePoints(): Map<string, string> {
+    const lagrangePointPattern = this.getLagrangePointPattern();
+    const points = new Map<string, string>();
+    
+    for (const [id, data] of Object.entries(this.systemData || {})) {
+      if (data.type !== ObjectType.LagrangePoint || data.computed || !data.position) continue;
+      
+      const match = (data.name || id).match(lagrangePointPattern);
+      if (match) {
+        points.set(`${this.definition.bodyPrefix}${match[1]}_l${Number(match[2])}`, id);
+      }
+    }
+    
+    return points;
+  }
+
+  /**
+   * Collect the Lagrange points present in the extract, to check computed ones against
+   * The extracts store Lagrange point positions relative to the star
+   */
+  private getKnownLagrangePoints(): KnownLagrangePoint[] {
+    if (!this.systemData) return [];
+    
+    const lagrangePointPattern = this.getLagrangePointPattern();
+    const knownPoints: KnownLagrangePoint[] = [];
+    
+    for (const [pointId, id] of this.getExtractLagrangePoints()) {
+      const match = pointId.match(lagrangePointPattern)!;
+      const planet = this.systemData[`${this.definition.bodyPrefix}${match[1]}`];
+      if (!planet?.position) continue;
+      
+      knownPoints.push({
+        lagrangeNumber: Number(match[2]),
+        planetPosition: this.getPositionRelativeToStar(planet.position),
+        position: this.getPositionRelativeToStar(this.systemData[id].position)
+      });
+    }
+    
+    return knownPoints;
+  }
+
+  /**
+   * Convert a raw star-frame position from the extract to one relative to the star
+   */
+  private getPositionRelativeToStar(position: Position): Position {
+    const starPosition: Position = this.systemData?.[this.definition.starId]?.position || this.starPosition;
+    return {
+      x: position.x - starPosition.x,
+      y: position.y - starPosition.y,
+      z: position.z - starPosition.z
+    };
   }
 
   /**
@@ -184,9 +493,13 @@ export class StarSystemService {
     const knownObjectIds = new Set(Object.keys(this.systemData));
     
     // Fix the star if it has 'root' as parent
-    const starKey = Object.keys(this.systemData).find(key => 
-      key.toLowerCase().includes('star') || key.toLowerCase().includes('sun')
-    );
+    const starKey = this.systemData[this.definition.starId]
+      ? this.definition.starId
+      : Object.keys(this.systemData).find(key => 
+          key.toLowerCase().includes('star') || key.toLowerCase().includes('sun')
+        );
+    const prefix = this.definition.bodyPrefix;
+    const lagrangePointPattern = this.getLagrangePointPattern();
     
     if (starKey && this.systemData[starKey].parent === 'root') {
       this.systemData[starKey].parent = ''; // Set to empty string to indicate no parent
@@ -198,11 +511,10 @@ export class StarSystemService {
         // Try to find a suitable parent
         
         // For lagrange points, check if a planet exists
-        if (id.includes('_l') && id.includes('stanton')) {
-          const planetPattern = /stanton(\d+)_l\d+/;
-          const match = id.match(planetPattern);
+        if (id.includes('_l') && id.includes(prefix)) {
+          const match = id.match(lagrangePointPattern);
           if (match) {
-            const planetId = `stanton${match[1]}`;
+            const planetId = `${prefix}${match[1]}`;
             if (knownObjectIds.has(planetId)) {
               console.log(`Fixing parent for ${id}: ${data.parent} -> ${planetId}`);
               data.parent = planetId;
@@ -213,11 +525,10 @@ export class StarSystemService {
           }
         } 
         // For stations at a lagrange point, associate them with the correct planet
-        else if (id.includes('station_reststop') && id.includes('stanton')) {
-          const planetPattern = /stanton(\d+)_l\d+/;
-          const match = data.parent.match(planetPattern);
+        else if (id.includes('station_reststop') && id.includes(prefix)) {
+          const match = data.parent.match(lagrangePointPattern);
           if (match) {
-            const planetId = `stanton${match[1]}`;
+            const planetId = `${prefix}${match[1]}`;
             if (knownObjectIds.has(planetId)) {
               console.log(`Fixing parent for ${id}: ${data.parent} -> ${planetId}`);
               data.parent = planetId;
@@ -235,6 +546,14 @@ export class StarSystemService {
     }
   }
 
+  /**
+   * Pattern matching Lagrange point IDs of this system, e.g. stanton1_l2
+   * Captures the planet number and the Lagrange point number
+   */
+  private getLagrangePointPattern(): RegExp {
+    return new RegExp(`${this.definition.bodyPrefix}(\\d+)_l(\\d+)`);
+  }
+
   /**
    * Create a celestial object from raw JSON data
    */
@@ -268,8 +587,8 @@ export class StarSystemService {
       type = (data.type as ObjectType) || ObjectType.Generic;
     }
 
-    // Create and return the celestial object
-    return {
+    // Create the celestial object
+    const celestialObject: CelestialObject = {
       name: id,
       display_name: data.display_name || id,
       parent: data.parent || "",
@@ -282,12 +601,26 @@ export class StarSystemService {
       atmoHeight: data.atmoHeight || 0,
       system_entity_name: data.system_entity_name || id
     };
+
+    // Keep the flags of objects computed by the service rather than read from the extract
+    if (data.computed) {
+      celestialObject.computed = true;
+      celestialObject.positionError = data.positionError || 0;
+    }
+
+    return celestialObject;
   }
 
   /**
    * Find the star in the system
    */
   private findStar(): CelestialObject | null {
+    // Prefer the star named by the system definition
+    const definedStar = this.objectsById.get(this.definition.starId);
+    if (definedStar) {
+      return definedStar;
+    }
+
     // First try to find objects of type Star
     const stars = this.objectsByType.get(ObjectType.Star);
     if (stars && stars.length > 0) {
@@ -314,25 +647,43 @@ export class StarSystemService {
 
   /**
    * Build the hierarchical relationship between objects
+   * and cache the world transform of every object reachable from the star
    */
   private buildHierarchy(): void {
     if (!this.starSystem) return;
 
     // Start from the star and build the hierarchy
-    const processChildren = (parentId: string, parentPosition: Position) => {
+    const processChildren = (parentId: string, parentTransform: WorldTransform) => {
       const children = this.objectsByParent.get(parentId) || [];
       
       for (const child of children) {
-        // Calculate absolute position based on parent
-        const absolutePosition = calculateAbsolutePosition(child, parentPosition);
+        // Guard against cycles in malformed data
+        if (this.worldTransforms.has(child.name)) continue;
+        
+        // Compose the parent's transform with the child's local one
+        const transform = this.composeTransform(child, parentTransform);
+        this.worldTransforms.set(child.name, transform);
         
         // Recursively process this child's children
-        processChildren(child.name, absolutePosition);
+        processChildren(child.name, transform);
       }
     };
 
     // Start processing from the star
-    processChildren(this.starSystem.star.name, this.starPosition);
+    const star = this.starSystem.star;
+    const starTransform: WorldTransform = { position: this.starPosition, rotation: star.rotation };
+    this.worldTransforms.set(star.name, starTransform);
+    processChildren(star.name, starTransform);
+  }
+
+  /**
+   * Get the world transform of an object from its local transform and its parent's world transform
+   */
+  private composeTransform(object: CelestialObject, parentTransform: WorldTransform): WorldTransform {
+    return {
+      position: calculateAbsolutePosition(object, parentTransform.position, parentTransform.rotation),
+      rotation: multiplyQuaternions(parentTransform.rotation, object.rotation)
+    };
   }
 
   /**
@@ -342,25 +693,58 @@ export class StarSystemService {
     return this.objectsByType.get(type) || [];
   }
 
+  /**
+   * Get all loaded objects
+   */
+  public getAllObjects(): CelestialObject[] {
+    return Array.from(this.objectsById.values());
+  }
+
   /**
    * Get an object by its ID
+   * IDs of Lagrange points the extract stores under another ID resolve to the extract's object
    */
   public getObjectById(id: string): CelestialObject | undefined {
-    return this.objectsById.get(id);
+    return this.objectsById.get(this.resolveObjectId(id));
+  }
+
+  /**
+   * Get the ID an object is stored under
+   */
+  private resolveObjectId(id: string): string {
+    return this.objectAliases.get(id) ?? id;
+  }
+
+  /**
+   * Get a spatial index over the absolute positions of all objects
+   * Built on first use and rebuilt when new data is loaded
+   */
+  public getSpatialIndex(): SpatialIndex<CelestialObject> {
+    if (!this.spatialIndex) {
+      this.spatialIndex = new SpatialIndex<CelestialObject>();
+      for (const object of this.objectsById.values()) {
+        const position = this.getAbsolutePosition(object.name);
+        if (position) {
+          this.spatialIndex.insert(object.name, position, object);
+        }
+      }
+    }
+    
+    return this.spatialIndex;
   }
 
   /**
    * Get children of a specific parent
    */
   public getChildrenOfObject(parentId: string): CelestialObject[] {
-    return this.objectsByParent.get(parentId) || [];
+    return this.objectsByParent.get(this.resolveObjectId(parentId)) || [];
   }
 
   /**
    * Get orbit path for an object
    */
   public getOrbitPath(objectId: string, steps = 100): Position[] {
-    const object = this.objectsById.get(objectId);
+    const object = this.getObjectById(objectId);
     if (!object) {
       return [];
     }
@@ -369,37 +753,165 @@ export class StarSystemService {
   }
 
   /**
-   * Calculate absolute position for an object
+   * Get the world transform (position and orientation relative to the star) of an object
+   * Objects that aren't connected to the star are resolved through their parent chain
+   * @param objectId ID of the object
+   * @param atTime Optional server time (ms); when given, bodies are spun by their rotation period
    */
-  public getAbsolutePosition(objectId: string): Position | null {
+  public getWorldTransform(objectId: string, atTime?: number): WorldTransform | null {
+    objectId = this.resolveObjectId(objectId);
+    
+    if (atTime !== undefined) {
+      const object = this.objectsById.get(objectId);
+      return object ? this.getTransformAtTime(object, atTime, new Set()) : null;
+    }
+    
+    const cached = this.worldTransforms.get(objectId);
+    if (cached) {
+      return cached;
+    }
+    
     const object = this.objectsById.get(objectId);
     if (!object) {
       return null;
     }
     
-    // Start with the object's own position
-    let position = { ...object.position };
-    
-    // Traverse up the parent chain to calculate absolute position
-    let currentObject = object;
-    let parentId = currentObject.parent;
+    // Collect the parent chain up to the first object with a known transform
+    const chain: CelestialObject[] = [object];
+    let parentTransform: WorldTransform = { position: this.starPosition, rotation: IDENTITY_ROTATION };
+    let parentId = object.parent;
     
     while (parentId && parentId !== "") {
-      const parent = this.objectsById.get(parentId);
-      if (!parent) break;
+      const known = this.worldTransforms.get(parentId);
+      if (known) {
+        parentTransform = known;
+        break;
+      }
       
-      // Add parent's position to get absolute position
-      position = {
-        x: position.x + parent.position.x,
-        y: position.y + parent.position.y,
-        z: position.z + parent.position.z
-      };
+      const parent = this.objectsById.get(parentId);
+      if (!parent || chain.includes(parent)) break;
       
-      // Move up to the next parent
+      chain.unshift(parent);
       parentId = parent.parent;
     }
     
-    return position;
+    // Compose transforms back down to the requested object
+    for (const current of chain) {
+      parentTransform = this.composeTransform(current, parentTransform);
+      this.worldTransforms.set(current.name, parentTransform);
+    }
+    
+    return parentTransform;
+  }
+
+  /**
+   * Get the world transform of an object at a given time
+   * The transform includes the object's own spin. Surface objects follow their parent's spin,
+   * everything else (moons, stations, orbital markers) keeps a fixed position around it.
+   */
+  private getTransformAtTime(object: CelestialObject, atTime: number, visited: Set<string>): WorldTransform {
+    visited.add(object.name);
+    
+    const parent = this.objectsById.get(object.parent);
+    let parentTransform: WorldTransform = { position: this.starPosition, rotation: IDENTITY_ROTATION };
+    
+    if (parent && !visited.has(parent.name)) {
+      parentTransform = this.getTransformAtTime(parent, atTime, visited);
+      
+      // Undo the parent's spin for objects that don't rotate with its surface
+      const parentRotation = this.getBodyRotation(parent.name);
+      if (parentRotation && !SURFACE_OBJECT_TYPES.includes(object.type)) {
+        const parentSpin = calculateBodySpin(parentRotation, atTime, ROTATION_EPOCH);
+        parentTransform = {
+          position: parentTransform.position,
+          rotation: multiplyQuaternions(parentTransform.rotation, invertQuaternion(parentSpin))
+        };
+      }
+    }
+    
+    const transform = this.composeTransform(object, parentTransform);
+    
+    const bodyRotation = this.getBodyRotation(object.name);
+    if (bodyRotation) {
+      transform.rotation = multiplyQuaternions(
+        transform.rotation,
+        calculateBodySpin(bodyRotation, atTime, ROTATION_EPOCH)
+      );
+    }
+    
+    return transform;
+  }
+
+  /**
+   * Get the absolute positions of a planet's or moon's orbital markers
+   */
+  public getOrbitalMarkers(bodyId: string): OrbitalMarkers | null {
+    const positions = ORBITAL_MARKER_AXES.map((_, index) => 
+      this.getAbsolutePosition(`${bodyId}_om${index + 1}`)
+    );
+    if (positions.some(position => position === null)) {
+      return null;
+    }
+    
+    const [om1, om2, om3, om4, om5, om6] = positions as Position[];
+    return { om1, om2, om3, om4, om5, om6 };
+  }
+
+  /**
+   * Get the rotation period overlay of a planet or moon, if known
+   */
+  public getBodyRotation(objectId: string): BodyRotation | undefined {
+    return BODY_ROTATIONS[objectId];
+  }
+
+  /**
+   * Calculate absolute position for an object
+   * @param objectId ID of the object
+   * @param atTime Optional server time (ms) for objects moving with a spinning body, e.g. landing zones
+   */
+  public getAbsolutePosition(objectId: string, atTime?: number): Position | null {
+    return this.getWorldTransform(objectId, atTime)?.position || null;
+  }
+
+  /**
+   * Get the orientation of an object relative to the star's frame
+   */
+  public getWorldOrientation(objectId: string, atTime?: number): Rotation | null {
+    return this.getWorldTransform(objectId, atTime)?.rotation || null;
+  }
+
+  /**
+   * Convert a position in an object's local frame (e.g. a point on a planet's surface)
+   * to an absolute position
+   */
+  public localToWorld(objectId: string, localPosition: Position, atTime?: number): Position | null {
+    const transform = this.getWorldTransform(objectId, atTime);
+    if (!transform) {
+      return null;
+    }
+    
+    const offset = rotatePosition(localPosition, transform.rotation);
+    return {
+      x: transform.position.x + offset.x,
+      y: transform.position.y + offset.y,
+      z: transform.position.z + offset.z
+    };
+  }
+
+  /**
+   * Convert an absolute position to a position in an object's local frame
+   */
+  public worldToLocal(objectId: string, worldPosition: Position, atTime?: number): Position | null {
+    const transform = this.getWorldTransform(objectId, atTime);
+    if (!transform) {
+      return null;
+    }
+    
+    return rotatePosition({
+      x: worldPosition.x - transform.position.x,
+      y: worldPosition.y - transform.position.y,
+      z: worldPosition.z - transform.position.z
+    }, invertQuaternion(transform.rotation));
   }
 
   /**
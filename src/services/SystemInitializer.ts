@@ -1,6 +1,7 @@
 import { starSystemService } from './StarSystemService';
 import { systemDebugger } from '../utils/SystemDebugger';
 import { loadStantonData } from '../data/jsonLoader';
+import { systemRegistry } from './SystemRegistry';
 
 /**
  * Service responsible for initializing the star system data during app startup
@@ -49,6 +50,8 @@ export class SystemInitializer {
         const stats = systemDebugger.generateStatistics();
         console.log('Star system statistics:', stats);
         
+        await this.loadAdditionalSystems();
+        
         this.initialized = true;
         return; // Successfully loaded, exit the function
       } catch (error: any) {
@@ -79,6 +82,8 @@ export class SystemInitializer {
       const stats = systemDebugger.generateStatistics();
       console.log('Star system statistics:', stats);
       
+      await this.loadAdditionalSystems();
+      
       this.initialized = true;
       return; // Successfully loaded, exit the function
     } catch (error: any) {
@@ -95,6 +100,29 @@ export class SystemInitializer {
     }
   }
   
+  /**
+   * Load the extracts of the other registered systems (Pyro, Magnus, ...) that ship with the app
+   * Systems without a dataPath are skipped, failing loads are not fatal
+   */
+  private async loadAdditionalSystems(): Promise<void> {
+    const loadedSystems = systemRegistry.getLoadedSystemNames();
+    
+    for (const definition of systemRegistry.getDefinitions()) {
+      if (loadedSystems.includes(definition.name) || !definition.dataPath) {
+        continue;
+      }
+      
+      try {
+        console.log(`Loading ${definition.name} system data from: ${definition.dataPath}`);
+        await systemRegistry.loadSystemFromFile(definition.name);
+      } catch (error) {
+        console.warn(`${definition.name} system data not available:`, error);
+      }
+    }
+    
+    console.log('Jump point links:', systemRegistry.getJumpPointLinks());
+  }
+  
   /**
    * Check if the system has been initialized
    */
@@ -0,0 +1,215 @@
+import { CelestialObject, JumpPointLink, ObjectType, StarSystem, SystemDefinition } from '../models/StarSystemTypes';
+import { StarSystemService, starSystemService } from './StarSystemService';
+import { SYSTEM_DEFINITIONS } from '../data/systemDefinitions';
+
+/**
+ * Registry holding one StarSystemService per star system, keyed by system name.
+ * Also links jump points to their counterparts in the destination system.
+ */
+export class SystemRegistry {
+  private definitions = new Map<string, SystemDefinition>();
+  private services = new Map<string, StarSystemService>();
+  private jumpPointLinks = new Map<string, JumpPointLink>();
+
+  constructor(definitions: SystemDefinition[] = []) {
+    for (const definition of definitions) {
+      this.registerDefinition(definition);
+    }
+  }
+
+  /**
+   * Register the naming rules for a system so it can be loaded later
+   */
+  public registerDefinition(definition: SystemDefinition): void {
+    this.definitions.set(this.getKey(definition.name), definition);
+  }
+
+  /**
+   * Attach an existing service (e.g. the Stanton singleton) to the registry
+   * Jump points are relinked whenever the service loads data, also when it's loaded directly
+   */
+  public attachService(service: StarSystemService): void {
+    const definition = service.getDefinition();
+    const key = this.getKey(definition.name);
+    this.registerDefinition(definition);
+    if (this.services.get(key) !== service) {
+      this.services.set(key, service);
+      service.onLoad(() => this.linkJumpPoints());
+    }
+    this.linkJumpPoints();
+  }
+
+  /**
+   * Load a system extract from a JSON file
+   * @param systemName Name of a registered system
+   * @param path Optional path overriding the definition's dataPath
+   */
+  public async loadSystemFromFile(systemName: string, path?: string): Promise<StarSystem> {
+    const service = this.getOrCreateService(systemName);
+    const dataPath = path || service.getDefinition().dataPath;
+    if (!dataPath) {
+      throw new Error(`No data path defined for system ${systemName}`);
+    }
+
+    return service.loadFromFile(dataPath);
+  }
+
+  /**
+   * Load a system extract from an already parsed object
+   */
+  public loadSystemFromObject(systemName: string, data: Record<string, unknown>): StarSystem {
+    return this.getOrCreateService(systemName).loadFromObject(data);
+  }
+
+  /**
+   * Get the service for a system, or undefined if it was never loaded
+   */
+  public getService(systemName: string): StarSystemService | undefined {
+    return this.services.get(this.getKey(systemName));
+  }
+
+  /**
+   * Get the loaded star system with the given name
+   */
+  public getSystem(systemName: string): StarSystem | null {
+    return this.getService(systemName)?.getStarSystem() || null;
+  }
+
+  /**
+   * Names of all systems that have data loaded
+   */
+  public getLoadedSystemNames(): string[] {
+    return Array.from(this.services.values())
+      .filter(service => service.getStarSystem() !== null)
+      .map(service => service.getSystemName());
+  }
+
+  /**
+   * All registered system definitions, loaded or not
+   */
+  public getDefinitions(): SystemDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * Find the system containing the given object ID
+   */
+  public findSystemForObject(objectId: string): string | undefined {
+    for (const service of this.services.values()) {
+      if (service.getObjectById(objectId)) {
+        return service.getSystemName();
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the jump point links of one system, or of every loaded system
+   */
+  public getJumpPointLinks(systemName?: string): JumpPointLink[] {
+    const links = Array.from(this.jumpPointLinks.values());
+    if (!systemName) {
+      return links;
+    }
+    const key = this.getKey(systemName);
+    return links.filter(link => this.getKey(link.systemName) === key);
+  }
+
+  /**
+   * Get the link for a single jump point
+   */
+  public getJumpPointLink(systemName: string, jumpPointId: string): JumpPointLink | undefined {
+    return this.jumpPointLinks.get(this.getLinkKey(systemName, jumpPointId));
+  }
+
+  /**
+   * Get the service for a registered system, creating it on first use
+   */
+  private getOrCreateService(systemName: string): StarSystemService {
+    const key = this.getKey(systemName);
+    const existing = this.services.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const definition = this.definitions.get(key);
+    if (!definition) {
+      throw new Error(`Unknown star system: ${systemName}`);
+    }
+
+    const service = new StarSystemService(definition);
+    this.attachService(service);
+    return service;
+  }
+
+  /**
+   * Rebuild the links between jump points of all loaded systems
+   */
+  private linkJumpPoints(): void {
+    this.jumpPointLinks.clear();
+
+    for (const service of this.services.values()) {
+      const systemName = service.getSystemName();
+
+      for (const jumpPoint of service.getObjectsByType(ObjectType.JumpPoint)) {
+        const destinationSystem = this.resolveSystemName(parseJumpPointDestination(jumpPoint));
+        if (!destinationSystem) {
+          console.warn(`Could not determine destination of jump point ${jumpPoint.name}`);
+          continue;
+        }
+
+        // The counterpart is the jump point in the destination system leading back here
+        const destinationService = this.getService(destinationSystem);
+        const counterpart = destinationService
+          ?.getObjectsByType(ObjectType.JumpPoint)
+          .find(candidate => 
+            this.getKey(parseJumpPointDestination(candidate) || '') === this.getKey(systemName)
+          );
+
+        this.jumpPointLinks.set(this.getLinkKey(systemName, jumpPoint.name), {
+          systemName,
+          jumpPointId: jumpPoint.name,
+          destinationSystem,
+          destinationJumpPointId: counterpart ? counterpart.name : null
+        });
+      }
+    }
+  }
+
+  /**
+   * Map a parsed destination to the registered system's name, keeping unknown names as-is
+   */
+  private resolveSystemName(name: string | null): string | null {
+    if (!name) {
+      return null;
+    }
+    return this.definitions.get(this.getKey(name))?.name || name;
+  }
+
+  private getKey(systemName: string): string {
+    return systemName.toLowerCase();
+  }
+
+  private getLinkKey(systemName: string, jumpPointId: string): string {
+    return `${this.getKey(systemName)}:${jumpPointId}`;
+  }
+}
+
+/**
+ * Get the destination system name of a jump point from its ID or entity name,
+ * e.g. JumpPoint_Stanton_Pyro or ooc_jumppoint_stanton_pyro -> "Pyro"
+ */
+export function parseJumpPointDestination(jumpPoint: CelestialObject): string | null {
+  const candidates = [jumpPoint.name, jumpPoint.system_entity_name];
+  for (const candidate of candidates) {
+    const match = candidate.match(/jumppoint_([a-z0-9]+)_([a-z0-9]+)$/i);
+    if (match) {
+      return match[2];
+    }
+  }
+  return null;
+}
+
+// Create a singleton instance for easy import, sharing the Stanton service
+export const systemRegistry = new SystemRegistry(SYSTEM_DEFINITIONS);
+systemRegistry.attachService(starSystemService);
@@ -1,4 +1,4 @@
-import { Position, Rotation, DistanceUnit, CelestialObject } from '../models/StarSystemTypes';
+import { Position, Rotation, DistanceUnit, CelestialObject, BodyRotation } from '../models/StarSystemTypes';
 
 /**
  * Convert a distance value from one unit to another
@@ -27,13 +27,76 @@ export function convertDistance(value: number, from: DistanceUnit, to: DistanceU
 }
 
 /**
- * Calculate the absolute position of an object based on its parent's position
+ * Identity rotation quaternion (no rotation)
  */
-export function calculateAbsolutePosition(object: CelestialObject, parentPosition: Position): Position {
+export const IDENTITY_ROTATION: Rotation = { w: 1, x: 0, y: 0, z: 0 };
+
+/**
+ * Calculate the absolute position of an object based on its parent's position and orientation
+ * The object's position is expressed in the parent's rotated frame
+ */
+export function calculateAbsolutePosition(
+  object: CelestialObject,
+  parentPosition: Position,
+  parentRotation: Rotation = IDENTITY_ROTATION
+): Position {
+  const offset = rotatePosition(object.position, parentRotation);
+  
+  return {
+    x: parentPosition.x + offset.x,
+    y: parentPosition.y + offset.y,
+    z: parentPosition.z + offset.z
+  };
+}
+
+/**
+ * Combine two rotations, applying b first and then a (Hamilton product a * b)
+ */
+export function multiplyQuaternions(a: Rotation, b: Rotation): Rotation {
+  return {
+    w: a.w * b.w - a.x * b.x - a.y * b.y - a.z * b.z,
+    x: a.w * b.x + a.x * b.w + a.y * b.z - a.z * b.y,
+    y: a.w * b.y - a.x * b.z + a.y * b.w + a.z * b.x,
+    z: a.w * b.z + a.x * b.y - a.y * b.x + a.z * b.w
+  };
+}
+
+/**
+ * Get the rotation undoing the given one
+ */
+export function invertQuaternion(rotation: Rotation): Rotation {
+  const lengthSquared = rotation.w * rotation.w + rotation.x * rotation.x + 
+    rotation.y * rotation.y + rotation.z * rotation.z;
+  
+  // Treat a zero quaternion (missing data) as no rotation
+  if (lengthSquared === 0) {
+    return IDENTITY_ROTATION;
+  }
+  
+  return {
+    w: rotation.w / lengthSquared,
+    x: -rotation.x / lengthSquared,
+    y: -rotation.y / lengthSquared,
+    z: -rotation.z / lengthSquared
+  };
+}
+
+/**
+ * Rotate a position vector by a quaternion
+ */
+export function rotatePosition(position: Position, rotation: Rotation): Position {
+  const { w, x, y, z } = rotation;
+  
+  // t = 2 * cross(q.xyz, v)
+  const tx = 2 * (y * position.z - z * position.y);
+  const ty = 2 * (z * position.x - x * position.z);
+  const tz = 2 * (x * position.y - y * position.x);
+  
+  // v' = v + w * t + cross(q.xyz, t)
   return {
-    x: parentPosition.x + object.position.x,
-    y: parentPosition.y + object.position.y,
-    z: parentPosition.z + object.position.z
+    x: position.x + w * tx + (y * tz - z * ty),
+    y: position.y + w * ty + (z * tx - x * tz),
+    z: position.z + w * tz + (x * ty - y * tx)
   };
 }
 
@@ -158,4 +221,59 @@ export function quaternionToEuler(rotation: Rotation): { x: number; y: number; z
   const yaw = Math.atan2(siny_cosp, cosy_cosp);
   
   return { x: roll, y: pitch, z: yaw };
-} 
\ No newline at end of file
+} 
+
+/**
+ * Calculate the shortest distance from a point to the line segment between two positions
+ */
+export function calculateDistanceToSegment(point: Position, segmentStart: Position, segmentEnd: Position): number {
+  const abx = segmentEnd.x - segmentStart.x;
+  const aby = segmentEnd.y - segmentStart.y;
+  const abz = segmentEnd.z - segmentStart.z;
+  const lengthSquared = abx * abx + aby * aby + abz * abz;
+  
+  // Degenerate segment, both ends are the same point
+  if (lengthSquared === 0) {
+    return calculateDistance(point, segmentStart);
+  }
+  
+  // Project the point onto the segment and clamp to its ends
+  const t = Math.max(0, Math.min(1, (
+    (point.x - segmentStart.x) * abx +
+    (point.y - segmentStart.y) * aby +
+    (point.z - segmentStart.z) * abz
+  ) / lengthSquared));
+  
+  return calculateDistance(point, {
+    x: segmentStart.x + abx * t,
+    y: segmentStart.y + aby * t,
+    z: segmentStart.z + abz * t
+  });
+}
+
+/**
+ * Create a rotation of the given angle (radians) around the local z axis
+ */
+export function createZRotation(angle: number): Rotation {
+  return {
+    w: Math.cos(angle / 2),
+    x: 0,
+    y: 0,
+    z: Math.sin(angle / 2)
+  };
+}
+
+/**
+ * Calculate how far a body has spun around its axis at a given time
+ * @param bodyRotation The body's rotation period and offset
+ * @param atTime Server time in milliseconds
+ * @param epoch Server time at which the body is at its offset angle
+ * @returns The spin as a rotation around the body's local z axis
+ */
+export function calculateBodySpin(bodyRotation: BodyRotation, atTime: number, epoch: number): Rotation {
+  const periodMs = bodyRotation.rotationPeriod * 60 * 60 * 1000;
+  const turns = ((atTime - epoch) / periodMs) % 1;
+  const angle = turns * Math.PI * 2 + bodyRotation.rotationOffset * Math.PI / 180;
+  
+  return createZRotation(angle);
+}
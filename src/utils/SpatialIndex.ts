@@ -0,0 +1,308 @@
+import { Position } from '../models/StarSystemTypes';
+import { calculateDistance, calculateDistanceToSegment } from './SpaceUtils';
+
+/**
+ * Maximum entries in an octree node before it is split
+ */
+const NODE_CAPACITY = 8;
+
+/**
+ * Maximum depth of the octree, stops splitting nodes of (nearly) identical positions
+ */
+const MAX_DEPTH = 32;
+
+/**
+ * An item stored in the spatial index
+ */
+export interface SpatialEntry<T> {
+  id: string;
+  position: Position;
+  item: T;
+}
+
+/**
+ * A query result with its distance to the query point or segment
+ */
+export interface SpatialMatch<T> extends SpatialEntry<T> {
+  distance: number;
+}
+
+interface OctreeNode<T> {
+  center: Position;
+  halfSize: number;
+  depth: number;
+  entries: SpatialEntry<T>[];
+  children: OctreeNode<T>[] | null;
+}
+
+/**
+ * Octree over absolute positions supporting nearest-k, radius and corridor queries
+ * Entries can be added, moved and removed incrementally
+ */
+export class SpatialIndex<T> {
+  private root: OctreeNode<T> | null = null;
+  private entries = new Map<string, SpatialEntry<T>>();
+  private entryNodes = new Map<string, OctreeNode<T>>();
+
+  /**
+   * Number of entries in the index
+   */
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Check whether an entry with the given ID is indexed
+   */
+  public has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  /**
+   * Add an entry, replacing any existing entry with the same ID
+   * @throws Error if a coordinate of the position is NaN or infinite
+   */
+  public insert(id: string, position: Position, item: T): void {
+    if (!Number.isFinite(position.x) || !Number.isFinite(position.y) || !Number.isFinite(position.z)) {
+      throw new Error(`Cannot index ${id} at non-finite position (${position.x}, ${position.y}, ${position.z})`);
+    }
+    if (this.entries.has(id)) {
+      this.remove(id);
+    }
+
+    if (!this.root) {
+      this.root = this.createNode(position, 1, 0);
+    }
+    // Grow the root until it contains the new position, before the new entry is known to growRoot
+    while (!this.contains(this.root, position)) {
+      this.root = this.growRoot(this.root, position);
+    }
+
+    const entry: SpatialEntry<T> = { id, position, item };
+    this.entries.set(id, entry);
+    this.insertIntoNode(this.root, entry);
+  }
+
+  /**
+   * Remove an entry
+   * @returns Whether the entry was indexed
+   */
+  public remove(id: string): boolean {
+    const entry = this.entries.get(id);
+    const node = this.entryNodes.get(id);
+    if (!entry || !node) {
+      return false;
+    }
+
+    node.entries.splice(node.entries.indexOf(entry), 1);
+    this.entries.delete(id);
+    this.entryNodes.delete(id);
+    return true;
+  }
+
+  /**
+   * Remove all entries
+   */
+  public clear(): void {
+    this.root = null;
+    this.entries.clear();
+    this.entryNodes.clear();
+  }
+
+  /**
+   * Get all indexed entries
+   */
+  public getEntries(): SpatialEntry<T>[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Find the k entries closest to a position
+   * @param position The query position
+   * @param k Number of entries to return
+   * @param filter Optional filter entries must pass
+   * @returns Matches ordered by distance, closest first
+   */
+  public nearest(position: Position, k: number, filter?: (item: T) => boolean): SpatialMatch<T>[] {
+    const results: SpatialMatch<T>[] = [];
+    if (!this.root || k <= 0) {
+      return results;
+    }
+
+    const visit = (node: OctreeNode<T>) => {
+      // Skip nodes that can't contain anything closer than the current k-th match
+      if (results.length === k && this.distanceToNode(node, position) > results[k - 1].distance) {
+        return;
+      }
+
+      for (const entry of node.entries) {
+        if (filter && !filter(entry.item)) continue;
+
+        const distance = calculateDistance(position, entry.position);
+        if (results.length < k || distance < results[results.length - 1].distance) {
+          const index = results.findIndex(result => result.distance > distance);
+          results.splice(index === -1 ? results.length : index, 0, { ...entry, distance });
+          if (results.length > k) results.pop();
+        }
+      }
+
+      if (node.children) {
+        // Visit the closest children first to tighten the bound early
+        const ordered = [...node.children]
+          .sort((a, b) => this.distanceToNode(a, position) - this.distanceToNode(b, position));
+        for (const child of ordered) {
+          visit(child);
+        }
+      }
+    };
+
+    visit(this.root);
+    return results;
+  }
+
+  /**
+   * Find all entries within a radius of a position
+   * @returns Matches ordered by distance, closest first
+   */
+  public withinRadius(position: Position, radius: number): SpatialMatch<T>[] {
+    const results: SpatialMatch<T>[] = [];
+
+    this.collect(
+      node => this.distanceToNode(node, position) <= radius,
+      entry => {
+        const distance = calculateDistance(position, entry.position);
+        if (distance <= radius) {
+          results.push({ ...entry, distance });
+        }
+      }
+    );
+
+    return results.sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Find all entries within a corridor around a line segment
+   * @param start Start of the segment
+   * @param end End of the segment
+   * @param corridorRadius Maximum distance from the segment
+   * @returns Matches with their distance to the segment, closest first
+   */
+  public alongSegment(start: Position, end: Position, corridorRadius: number): SpatialMatch<T>[] {
+    const results: SpatialMatch<T>[] = [];
+
+    this.collect(
+      // Conservative test: the node's bounding sphere must reach the corridor
+      node => calculateDistanceToSegment(node.center, start, end) <= corridorRadius + node.halfSize * Math.sqrt(3),
+      entry => {
+        const distance = calculateDistanceToSegment(entry.position, start, end);
+        if (distance <= corridorRadius) {
+          results.push({ ...entry, distance });
+        }
+      }
+    );
+
+    return results.sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Walk the nodes accepted by the predicate and pass their entries to the visitor
+   */
+  private collect(accept: (node: OctreeNode<T>) => boolean, visitEntry: (entry: SpatialEntry<T>) => void): void {
+    if (!this.root) return;
+
+    const stack = [this.root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (!accept(node)) continue;
+
+      node.entries.forEach(visitEntry);
+      if (node.children) {
+        stack.push(...node.children);
+      }
+    }
+  }
+
+  private createNode(center: Position, halfSize: number, depth: number): OctreeNode<T> {
+    return { center, halfSize, depth, entries: [], children: null };
+  }
+
+  private contains(node: OctreeNode<T>, position: Position): boolean {
+    return Math.abs(position.x - node.center.x) <= node.halfSize &&
+      Math.abs(position.y - node.center.y) <= node.halfSize &&
+      Math.abs(position.z - node.center.z) <= node.halfSize;
+  }
+
+  /**
+   * Distance from a position to the closest point of a node's box (0 if inside)
+   */
+  private distanceToNode(node: OctreeNode<T>, position: Position): number {
+    const dx = Math.max(0, Math.abs(position.x - node.center.x) - node.halfSize);
+    const dy = Math.max(0, Math.abs(position.y - node.center.y) - node.halfSize);
+    const dz = Math.max(0, Math.abs(position.z - node.center.z) - node.halfSize);
+    return Math.sqrt(dx * dx + dy * dy + dz * dz);
+  }
+
+  /**
+   * Double the root's size towards a position outside of it
+   * The old root becomes one octant of the new root
+   */
+  private growRoot(root: OctreeNode<T>, towards: Position): OctreeNode<T> {
+    const sx = towards.x >= root.center.x ? 1 : -1;
+    const sy = towards.y >= root.center.y ? 1 : -1;
+    const sz = towards.z >= root.center.z ? 1 : -1;
+    const newRoot = this.createNode({
+      x: root.center.x + sx * root.halfSize,
+      y: root.center.y + sy * root.halfSize,
+      z: root.center.z + sz * root.halfSize
+    }, root.halfSize * 2, 0);
+
+    // Re-insert everything so depths and octants stay consistent
+    const existing = this.getEntries();
+    this.entryNodes.clear();
+    for (const entry of existing) {
+      if (this.contains(newRoot, entry.position)) {
+        this.insertIntoNode(newRoot, entry);
+      }
+    }
+
+    return newRoot;
+  }
+
+  private insertIntoNode(node: OctreeNode<T>, entry: SpatialEntry<T>): void {
+    if (node.children) {
+      this.insertIntoNode(node.children[this.getOctant(node, entry.position)], entry);
+      return;
+    }
+
+    node.entries.push(entry);
+    this.entryNodes.set(entry.id, node);
+
+    if (node.entries.length > NODE_CAPACITY && node.depth < MAX_DEPTH) {
+      this.split(node);
+    }
+  }
+
+  private split(node: OctreeNode<T>): void {
+    const quarter = node.halfSize / 2;
+    node.children = [];
+    for (let octant = 0; octant < 8; octant++) {
+      node.children.push(this.createNode({
+        x: node.center.x + (octant & 1 ? quarter : -quarter),
+        y: node.center.y + (octant & 2 ? quarter : -quarter),
+        z: node.center.z + (octant & 4 ? quarter : -quarter)
+      }, quarter, node.depth + 1));
+    }
+
+    const entries = node.entries;
+    node.entries = [];
+    for (const entry of entries) {
+      this.insertIntoNode(node.children[this.getOctant(node, entry.position)], entry);
+    }
+  }
+
+  private getOctant(node: OctreeNode<T>, position: Position): number {
+    return (position.x >= node.center.x ? 1 : 0) |
+      (position.y >= node.center.y ? 2 : 0) |
+      (position.z >= node.center.z ? 4 : 0);
+  }
+}
@@ -0,0 +1,265 @@
+import { AlertType, RouteAlert } from '../models/stanton';
+import { CelestialObject, ObjectType, Position } from '../models/StarSystemTypes';
+import { StarSystemService, starSystemService } from '../services/StarSystemService';
+import { systemRegistry } from '../services/SystemRegistry';
+import { calculateAlertDecay } from './alertUtils';
+import { getDisplayName } from './objectNames';
+import { SpatialIndex } from './SpatialIndex';
+import { calculateDistance } from './stantonParser';
+
+/**
+ * Default edge length of the heat cells in meters (100,000 km)
+ */
+export const DEFAULT_HEAT_CELL_SIZE = 100000000;
+
+/**
+ * Default distance within which alerts count as neighbours when clustering, in meters
+ */
+export const DEFAULT_CLUSTER_RADIUS = 100000;
+
+/**
+ * Default weight of alerts an alert needs around it (itself included) to seed a cluster
+ */
+export const DEFAULT_MIN_CLUSTER_WEIGHT = 2;
+
+/**
+ * Optional settings for aggregating alerts
+ */
+export interface HeatmapOptions {
+  cellSize?: number; // Edge length of the heat cells in meters
+  clusterRadius?: number; // Neighbour distance when clustering, in meters
+  minClusterWeight?: number; // Weight of neighbouring alerts needed to seed a cluster
+  decayRate?: number; // How quickly alert weight fades over an alert's lifetime (0-1)
+  byType?: boolean; // Cluster each alert type separately (default) or all types together
+}
+
+/**
+ * A grid cell of the heatmap with the decay-weighted alerts inside it
+ */
+export interface HeatCell {
+  id: string; // Grid coordinates, e.g. "3_-1_0"
+  center: Position;
+  count: number; // Alerts in the cell
+  weight: number; // Sum of their decay weights
+  intensity: number; // Weight relative to the hottest cell (0-1)
+  weightsByType: Partial<Record<AlertType, number>>;
+}
+
+/**
+ * Summary of a dense group of alerts
+ */
+export interface AlertCluster {
+  id: string;
+  alertIds: string[];
+  count: number;
+  weight: number; // Sum of the alerts' decay weights
+  centroid: Position; // Weighted by decay
+  radius: number; // Distance from the centroid to the farthest alert
+  dominantType: AlertType; // Alert type carrying the most weight
+  weightsByType: Partial<Record<AlertType, number>>;
+  regionId: string; // Region carrying the most weight
+  nearestObject: {
+    objectId: string;
+    displayName: string;
+    distance: number;
+  } | null;
+}
+
+/**
+ * An alert with the weight it still carries
+ */
+interface WeightedAlert {
+  alert: RouteAlert;
+  weight: number;
+}
+
+/**
+ * Aggregate active alerts into heat cells, weighted by how far each alert has decayed
+ * @param alerts The alerts to aggregate, expired ones are left out
+ * @param options Optional cell size and decay rate
+ * @param now Current time in milliseconds
+ * @returns The cells holding alerts, hottest first
+ */
+export function buildHeatCells(
+  alerts: RouteAlert[],
+  options: HeatmapOptions = {},
+  now = Date.now()
+): HeatCell[] {
+  const cellSize = options.cellSize ?? DEFAULT_HEAT_CELL_SIZE;
+  const cells = new Map<string, HeatCell>();
+  
+  for (const { alert, weight } of weighAlerts(alerts, options.decayRate, now)) {
+    const { x, y, z } = alert.location.position;
+    const i = Math.floor(x / cellSize);
+    const j = Math.floor(y / cellSize);
+    const k = Math.floor(z / cellSize);
+    const id = `${i}_${j}_${k}`;
+  
+    let cell = cells.get(id);
+    if (!cell) {
+      cell = {
+        id,
+        center: { x: (i + 0.5) * cellSize, y: (j + 0.5) * cellSize, z: (k + 0.5) * cellSize },
+        count: 0,
+        weight: 0,
+        intensity: 0,
+        weightsByType: {}
+      };
+      cells.set(id, cell);
+    }
+  
+    cell.count++;
+    cell.weight += weight;
+    cell.weightsByType[alert.alertType] = (cell.weightsByType[alert.alertType] ?? 0) + weight;
+  }
+  
+  const sorted = Array.from(cells.values()).sort((a, b) => b.weight - a.weight || a.id.localeCompare(b.id));
+  const hottest = sorted[0]?.weight ?? 0;
+  for (const cell of sorted) {
+    cell.intensity = hottest > 0 ? cell.weight / hottest : 0;
+  }
+  
+  return sorted;
+}
+
+/**
+ * Group active alerts into dense clusters (DBSCAN over decay-weighted alerts)
+ * Alerts without enough weight around them that aren't near a cluster are left out
+ * @param alerts The alerts to cluster, expired ones are left out
+ * @param system The service holding the alerts' system, used to name the nearest object
+ * @param options Optional clustering settings
+ * @param now Current time in milliseconds
+ * @returns The clusters, heaviest first
+ */
+export function clusterAlerts(
+  alerts: RouteAlert[],
+  system: StarSystemService = starSystemService,
+  options: HeatmapOptions = {},
+  now = Date.now()
+): AlertCluster[] {
+  const radius = options.clusterRadius ?? DEFAULT_CLUSTER_RADIUS;
+  const minWeight = options.minClusterWeight ?? DEFAULT_MIN_CLUSTER_WEIGHT;
+  const byType = options.byType ?? true;
+  
+  const index = new SpatialIndex<WeightedAlert>();
+  const weighted = weighAlerts(alerts, options.decayRate, now);
+  for (const entry of weighted) {
+    index.insert(entry.alert.id, entry.alert.location.position, entry);
+  }
+  
+  const neighboursOf = (entry: WeightedAlert): WeightedAlert[] => index
+    .withinRadius(entry.alert.location.position, radius)
+    .map(match => match.item)
+    .filter(neighbour => !byType || neighbour.alert.alertType === entry.alert.alertType);
+  const isCore = (neighbours: WeightedAlert[]): boolean =>
+    neighbours.reduce((sum, neighbour) => sum + neighbour.weight, 0) >= minWeight;
+  
+  const assigned = new Set<string>();
+  const clusters: AlertCluster[] = [];
+  
+  for (const seed of weighted) {
+    if (assigned.has(seed.alert.id)) continue;
+  
+    const seedNeighbours = neighboursOf(seed);
+    if (!isCore(seedNeighbours)) continue;
+  
+    // Grow the cluster through every core alert reachable from the seed
+    const members: WeightedAlert[] = [];
+    const queue = [seed];
+    assigned.add(seed.alert.id);
+    while (queue.length > 0) {
+      const entry = queue.shift()!;
+      members.push(entry);
+  
+      const neighbours = entry === seed ? seedNeighbours : neighboursOf(entry);
+      if (!isCore(neighbours)) continue;
+  
+      for (const neighbour of neighbours) {
+        if (!assigned.has(neighbour.alert.id)) {
+          assigned.add(neighbour.alert.id);
+          queue.push(neighbour);
+        }
+      }
+    }
+  
+    clusters.push(summariseCluster(system, members));
+  }
+  
+  return clusters
+    .sort((a, b) => b.weight - a.weight || a.id.localeCompare(b.id))
+    .map((cluster, position) => ({ ...cluster, id: `cluster_${position + 1}` }));
+}
+
+/**
+ * Pair active alerts with the weight they still carry, oldest alerts weighing least
+ * Alerts are ordered by ID, so the input order doesn't change the result
+ */
+function weighAlerts(alerts: RouteAlert[], decayRate: number | undefined, now: number): WeightedAlert[] {
+  return alerts
+    .filter(alert => alert.expiresAt > now && alert.createdAt <= now)
+    .map(alert => ({ alert, weight: 1 - calculateAlertDecay(alert, decayRate, now) }))
+    .filter(entry => entry.weight > 0)
+    .sort((a, b) => a.alert.id.localeCompare(b.alert.id));
+}
+
+/**
+ * Summarise the alerts of a cluster
+ */
+function summariseCluster(system: StarSystemService, members: WeightedAlert[]): AlertCluster {
+  const weight = members.reduce((sum, { weight }) => sum + weight, 0);
+  const centroid = members.reduce(
+    (sum, { alert, weight: alertWeight }) => ({
+      x: sum.x + alert.location.position.x * alertWeight / weight,
+      y: sum.y + alert.location.position.y * alertWeight / weight,
+      z: sum.z + alert.location.position.z * alertWeight / weight
+    }),
+    { x: 0, y: 0, z: 0 }
+  );
+  
+  const weightsByType: Partial<Record<AlertType, number>> = {};
+  const weightsByRegion = new Map<string, number>();
+  for (const { alert, weight: alertWeight } of members) {
+    weightsByType[alert.alertType] = (weightsByType[alert.alertType] ?? 0) + alertWeight;
+    weightsByRegion.set(alert.location.regionId, (weightsByRegion.get(alert.location.regionId) ?? 0) + alertWeight);
+  }
+  
+  const alertIds = members.map(({ alert }) => alert.id).sort();
+  return {
+    id: alertIds[0],
+    alertIds,
+    count: members.length,
+    weight,
+    centroid,
+    radius: Math.max(...members.map(({ alert }) => calculateDistance(centroid, alert.location.position))),
+    dominantType: getHeaviest(weightsByType) as AlertType,
+    weightsByType,
+    regionId: getHeaviest(Object.fromEntries(weightsByRegion)),
+    nearestObject: findNearestNamedObject(system, centroid)
+  };
+}
+
+/**
+ * Get the key with the largest weight, ties going to the alphabetically first key
+ */
+function getHeaviest(weights: Record<string, number | undefined>): string {
+  return Object.entries(weights)
+    .sort(([keyA, a], [keyB, b]) => (b ?? 0) - (a ?? 0) || keyA.localeCompare(keyB))[0][0];
+}
+
+/**
+ * Find the closest object pilots know by name, skipping orbital markers and computed points
+ */
+function findNearestNamedObject(system: StarSystemService, position: Position): AlertCluster['nearestObject'] {
+  const isNamed = (object: CelestialObject) =>
+    !object.computed && object.type !== ObjectType.OrbitMarker && Boolean(object.display_name);
+  const [match] = system.getSpatialIndex().nearest(position, 1, isNamed);
+  if (!match) {
+    return null;
+  }
+  
+  return {
+    objectId: match.id,
+    displayName: getDisplayName(systemRegistry, system.getSystemName(), match.item, match.id),
+    distance: match.distance
+  };
+}
@@ -0,0 +1,307 @@
+import { RouteAlert } from '../models/stanton';
+import { FirestoreAlert, FirestoreSystemConfig } from '../models/firestore';
+import { calculateAlertDecay, calculateSafetyScore } from './alertUtils';
+
+/**
+ * System settings the alert lifecycle depends on
+ * The full FirestoreSystemConfig document can be passed as well
+ */
+export type AlertLifecycleConfig = Pick<
+  FirestoreSystemConfig,
+  'alertDecayRate' | 'confirmationWeight' | 'disputeWeight' | 'maxAlertLifetime'
+>;
+
+/**
+ * Settings used until the system config has been loaded
+ */
+export const DEFAULT_ALERT_LIFECYCLE_CONFIG: AlertLifecycleConfig = {
+  alertDecayRate: 0.5,
+  confirmationWeight: 0.7,
+  disputeWeight: 0.3,
+  maxAlertLifetime: 6 * 60 * 60 * 1000 // 6 hours
+};
+
+/**
+ * How long a confirmation keeps an alert alive from the moment it's cast (30 minutes)
+ */
+export const CONFIRMATION_EXTENSION = 30 * 60 * 1000;
+
+/**
+ * Safety score at which an alert is considered disproven and deactivated
+ */
+export const DEACTIVATION_SAFETY_SCORE = 90;
+
+/**
+ * Weight of votes an alert needs in total before they count towards deactivating it,
+ * so a single low-weight dispute can't close an alert; until then only its age can
+ */
+export const MIN_DEACTIVATION_VOTE_WEIGHT = 1;
+
+/**
+ * Largest vote weight of a brand-new or unknown account
+ */
+export const NEW_ACCOUNT_VOTE_WEIGHT = 0.25;
+
+/**
+ * Weight of each voter's vote, keyed by user ID
+ * Voters missing from the map count as unknown accounts, with NEW_ACCOUNT_VOTE_WEIGHT
+ */
+export type VoterWeights = Record<string, number>;
+
+/**
+ * Kind of vote a user cast on an alert
+ */
+export type AlertVote = 'confirmation' | 'dispute';
+
+/**
+ * Get the vote a user cast on an alert
+ * @param alert The alert
+ * @param userId The ID of the user
+ * @returns The user's vote, or null if they haven't voted
+ */
+export function getUserVote(alert: FirestoreAlert, userId: string): AlertVote | null {
+  if (userId in alert.confirmations) {
+    return 'confirmation';
+  }
+  if (userId in alert.disputes) {
+    return 'dispute';
+  }
+  return null;
+}
+
+/**
+ * Confirm an alert, extending its expiry up to the maximum alert lifetime
+ * @param alert The alert to confirm
+ * @param userId The ID of the confirming user
+ * @param config System settings
+ * @param now Current time in milliseconds
+ * @param weights Optional vote weights of the voters
+ * @returns The updated alert
+ * @throws Error if the alert is no longer active or the user already voted on it
+ */
+export function confirmAlert(
+  alert: FirestoreAlert,
+  userId: string,
+  config: AlertLifecycleConfig = DEFAULT_ALERT_LIFECYCLE_CONFIG,
+  now = Date.now(),
+  weights: VoterWeights = {}
+): FirestoreAlert {
+  assertCanVote(alert, userId, now);
+  
+  const latestExpiry = alert.createdAt + config.maxAlertLifetime;
+  const expiresAt = Math.max(alert.expiresAt, Math.min(now + CONFIRMATION_EXTENSION, latestExpiry));
+  
+  return recomputeAlert({
+    ...alert,
+    confirmations: { ...alert.confirmations, [userId]: now },
+    expiresAt
+  }, config, now, true, weights);
+}
+
+/**
+ * Dispute an alert, deactivating it once the disputes outweigh the confirmations enough
+ * @param alert The alert to dispute
+ * @param userId The ID of the disputing user
+ * @param config System settings
+ * @param now Current time in milliseconds
+ * @param weights Optional vote weights of the voters
+ * @returns The updated alert
+ * @throws Error if the alert is no longer active or the user already voted on it
+ */
+export function disputeAlert(
+  alert: FirestoreAlert,
+  userId: string,
+  config: AlertLifecycleConfig = DEFAULT_ALERT_LIFECYCLE_CONFIG,
+  now = Date.now(),
+  weights: VoterWeights = {}
+): FirestoreAlert {
+  assertCanVote(alert, userId, now);
+  
+  return recomputeAlert({
+    ...alert,
+    disputes: { ...alert.disputes, [userId]: now }
+  }, config, now, true, weights);
+}
+
+/**
+ * Take back a user's confirmation or dispute, so they can vote again
+ * An expiry extension granted by a retracted confirmation is kept
+ * @param alert The alert the user voted on
+ * @param userId The ID of the user
+ * @param config System settings
+ * @param now Current time in milliseconds
+ * @param weights Optional vote weights of the voters
+ * @returns The updated alert
+ * @throws Error if the alert is no longer active or the user hasn't voted on it
+ */
+export function retractVote(
+  alert: FirestoreAlert,
+  userId: string,
+  config: AlertLifecycleConfig = DEFAULT_ALERT_LIFECYCLE_CONFIG,
+  now = Date.now(),
+  weights: VoterWeights = {}
+): FirestoreAlert {
+  assertActive(alert, now);
+  
+  const vote = getUserVote(alert, userId);
+  if (!vote) {
+    throw new Error(`User ${userId} hasn't voted on alert ${alert.id}`);
+  }
+  
+  const remaining = { ...(vote === 'confirmation' ? alert.confirmations : alert.disputes) };
+  delete remaining[userId];
+  
+  return recomputeAlert({
+    ...alert,
+    confirmations: vote === 'confirmation' ? remaining : alert.confirmations,
+    disputes: vote === 'dispute' ? remaining : alert.disputes
+  }, config, now, true, weights);
+}
+
+/**
+ * Deactivate an alert, e.g. when its reporter or a moderator closes it
+ * Deactivated alerts stay inactive and can't be voted on anymore
+ * @param alert The alert to deactivate
+ * @param now Current time in milliseconds
+ * @returns The deactivated alert, or the alert itself if it already was inactive
+ */
+export function deactivateAlert(alert: FirestoreAlert, now = Date.now()): FirestoreAlert {
+  if (!alert.isActive) {
+    return alert;
+  }
+  
+  return {
+    ...alert,
+    expiresAt: Math.min(alert.expiresAt, now),
+    isActive: false,
+    lastUpdated: now
+  };
+}
+
+/**
+ * Bring an alert's safety score and active state up to date with its age,
+ * e.g. when alerts are loaded or on a periodic sweep
+ * @param alert The alert to refresh
+ * @param config System settings
+ * @param now Current time in milliseconds
+ * @param weights Optional vote weights of the voters
+ * @returns The updated alert, or the alert itself if nothing changed
+ */
+export function refreshAlert(
+  alert: FirestoreAlert,
+  config: AlertLifecycleConfig = DEFAULT_ALERT_LIFECYCLE_CONFIG,
+  now = Date.now(),
+  weights: VoterWeights = {}
+): FirestoreAlert {
+  return recomputeAlert(alert, config, now, false, weights);
+}
+
+/**
+ * Calculate the safety score of an alert from its weighted votes and age
+ * Scores rise towards 100 (safe) as the alert decays
+ * @param alert The alert to score
+ * @param config System settings
+ * @param now Current time in milliseconds
+ * @param weights Optional vote weights of the voters
+ * @returns A safety score between 0-100
+ */
+export function calculateAlertSafetyScore(
+  alert: FirestoreAlert,
+  config: AlertLifecycleConfig = DEFAULT_ALERT_LIFECYCLE_CONFIG,
+  now = Date.now(),
+  weights: VoterWeights = {}
+): number {
+  const voteScore = calculateSafetyScore(
+    {
+      confirmations: sumVoteWeights(alert.confirmations, weights),
+      disputes: sumVoteWeights(alert.disputes, weights)
+    },
+    config.confirmationWeight,
+    config.disputeWeight
+  );
+  const decay = calculateAlertDecay(alert, config.alertDecayRate, now);
+  
+  return Math.round(voteScore + (100 - voteScore) * decay);
+}
+
+/**
+ * Convert an alert document into the vote-count form used by route planning
+ * @param alert The alert document
+ * @returns The route alert
+ */
+export function toRouteAlert(alert: FirestoreAlert): RouteAlert {
+  return {
+    id: alert.id,
+    location: alert.location,
+    alertType: alert.alertType,
+    createdBy: alert.createdBy,
+    createdAt: alert.createdAt,
+    expiresAt: alert.expiresAt,
+    confirmations: Object.keys(alert.confirmations).length,
+    disputes: Object.keys(alert.disputes).length,
+    shardId: alert.shardId,
+    safetyScore: alert.safetyScore
+  };
+}
+
+/**
+ * Sum the weights of the users who cast a kind of vote
+ * @param votes The votes, keyed by user ID
+ * @param weights Vote weights of the voters
+ */
+export function sumVoteWeights(votes: Record<string, number>, weights: VoterWeights = {}): number {
+  return Object.keys(votes).reduce((sum, userId) => sum + (weights[userId] ?? NEW_ACCOUNT_VOTE_WEIGHT), 0);
+}
+
+/**
+ * Recompute the derived fields of an alert
+ * @param alert The alert, with its votes and expiry already updated
+ * @param config System settings
+ * @param now Current time in milliseconds
+ * @param changed Whether the votes or expiry were changed, which always touches lastUpdated
+ * @param weights Vote weights of the voters
+ */
+function recomputeAlert(
+  alert: FirestoreAlert,
+  config: AlertLifecycleConfig,
+  now: number,
+  changed: boolean,
+  weights: VoterWeights
+): FirestoreAlert {
+  const safetyScore = calculateAlertSafetyScore(alert, config, now, weights);
+  const expired = now >= Math.min(alert.expiresAt, alert.createdAt + config.maxAlertLifetime);
+  const voteWeight = sumVoteWeights(alert.confirmations, weights) + sumVoteWeights(alert.disputes, weights);
+  const deactivationScore = voteWeight >= MIN_DEACTIVATION_VOTE_WEIGHT
+    ? safetyScore
+    : calculateAlertSafetyScore({ ...alert, confirmations: {}, disputes: {} }, config, now);
+  const isActive = alert.isActive && !expired && deactivationScore < DEACTIVATION_SAFETY_SCORE;
+  
+  if (!changed && safetyScore === alert.safetyScore && isActive === alert.isActive) {
+    return alert;
+  }
+  
+  return { ...alert, safetyScore, isActive, lastUpdated: now };
+}
+
+/**
+ * Check an alert can still be voted on
+ * @throws Error if the alert was deactivated or expired
+ */
+function assertActive(alert: FirestoreAlert, now: number): void {
+  if (!alert.isActive || now >= alert.expiresAt) {
+    throw new Error(`Alert ${alert.id} is no longer active`);
+  }
+}
+
+/**
+ * Check a user may cast a vote on an alert
+ * @throws Error if the alert is no longer active or the user already voted on it
+ */
+function assertCanVote(alert: FirestoreAlert, userId: string, now: number): void {
+  assertActive(alert, now);
+  
+  const vote = getUserVote(alert, userId);
+  if (vote) {
+    throw new Error(`User ${userId} already voted on alert ${alert.id} (${vote}), retract it first`);
+  }
+}
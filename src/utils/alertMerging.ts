@@ -0,0 +1,155 @@
+import { AlertType, Position } from '../models/stanton';
+import { FirestoreAlert } from '../models/firestore';
+import { createRouteAlert } from './alertUtils';
+import {
+  AlertLifecycleConfig,
+  confirmAlert,
+  DEFAULT_ALERT_LIFECYCLE_CONFIG,
+  getUserVote,
+  VoterWeights
+} from './alertLifecycle';
+import { calculateDistance } from './stantonParser';
+
+/**
+ * Default distance within which a report matches an existing alert, in meters
+ */
+export const DEFAULT_MERGE_RADIUS = 50000;
+
+/**
+ * Default time since an alert was last reported within which a report matches it (15 minutes)
+ */
+export const DEFAULT_MERGE_WINDOW = 15 * 60 * 1000;
+
+/**
+ * A user's report of something at a position, before it's stored as an alert
+ */
+export interface AlertReport {
+  userId: string;
+  position: Position;
+  regionId: string | null; // Looked up from the position when null
+  alertType: AlertType;
+  shardId: string;
+  description?: string;
+}
+
+/**
+ * When a report counts as a duplicate of an existing alert
+ */
+export interface AlertMergeOptions {
+  radius?: number; // Meters between the report and the alert
+  window?: number; // Milliseconds since the alert was created or last confirmed
+}
+
+/**
+ * Outcome of submitting a report
+ */
+export interface AlertReportResult {
+  alert: FirestoreAlert; // The new alert, or the existing alert the report was merged into
+  merged: boolean; // Whether the report was folded into an existing alert
+  message: string; // Feedback for the reporter
+}
+
+/**
+ * Find an existing alert a new report duplicates:
+ * an active alert of the same type in the same shard, close by and recently reported
+ * @param report The new report
+ * @param alerts Existing alerts
+ * @param options Distance and time window
+ * @param now Current time in milliseconds
+ * @returns The closest matching alert, or null if the report is new
+ */
+export function findDuplicateAlert(
+  report: AlertReport,
+  alerts: FirestoreAlert[],
+  options: AlertMergeOptions = {},
+  now = Date.now()
+): FirestoreAlert | null {
+  const radius = options.radius ?? DEFAULT_MERGE_RADIUS;
+  const window = options.window ?? DEFAULT_MERGE_WINDOW;
+  
+  let closest: FirestoreAlert | null = null;
+  let closestDistance = Infinity;
+  
+  for (const alert of alerts) {
+    if (!alert.isActive || alert.expiresAt <= now) continue;
+    if (alert.alertType !== report.alertType || alert.shardId !== report.shardId) continue;
+    if (now - getLastReportedAt(alert) > window) continue;
+  
+    const distance = calculateDistance(report.position, alert.location.position);
+    if (distance <= radius && distance < closestDistance) {
+      closest = alert;
+      closestDistance = distance;
+    }
+  }
+  
+  return closest;
+}
+
+/**
+ * Submit a report, merging it into an existing alert as a confirmation when it duplicates one
+ * @param report The new report
+ * @param alerts Existing alerts
+ * @param config System settings
+ * @param options Distance and time window
+ * @param now Current time in milliseconds
+ * @param weights Optional vote weights of the voters
+ * @returns The alert to store and feedback for the reporter
+ */
+export function submitAlertReport(
+  report: AlertReport,
+  alerts: FirestoreAlert[],
+  config: AlertLifecycleConfig = DEFAULT_ALERT_LIFECYCLE_CONFIG,
+  options: AlertMergeOptions = {},
+  now = Date.now(),
+  weights: VoterWeights = {}
+): AlertReportResult {
+  const duplicate = findDuplicateAlert(report, alerts, options, now);
+  
+  if (!duplicate) {
+    return {
+      alert: createRouteAlert(
+        report.userId,
+        report.position,
+        report.regionId,
+        report.alertType,
+        report.shardId,
+        report.description,
+        now
+      ),
+      merged: false,
+      message: `Reported a new ${report.alertType} alert`
+    };
+  }
+  
+  // Reporting the same thing twice doesn't count as a second vote
+  const vote = getUserVote(duplicate, report.userId);
+  if (vote === 'confirmation') {
+    return {
+      alert: duplicate,
+      merged: true,
+      message: `You already confirmed this ${duplicate.alertType} alert`
+    };
+  }
+  if (vote === 'dispute') {
+    return {
+      alert: duplicate,
+      merged: true,
+      message: `You disputed this ${duplicate.alertType} alert, retract your dispute to confirm it`
+    };
+  }
+  
+  const alert = confirmAlert(duplicate, report.userId, config, now, weights);
+  const others = Object.keys(alert.confirmations).length - 1;
+  return {
+    alert,
+    merged: true,
+    message: `Confirmed an existing ${alert.alertType} alert reported by ${others} other ${others === 1 ? 'pilot' : 'pilots'}`
+  };
+}
+
+/**
+ * Get the time an alert was last reported or confirmed
+ */
+function getLastReportedAt(alert: FirestoreAlert): number {
+  return Math.max(alert.createdAt, ...Object.values(alert.confirmations));
+}
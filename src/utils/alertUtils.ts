@@ -1,6 +1,9 @@
 import { AlertPrediction, AlertType, Position, RouteAlert } from '../models/stanton';
 import { FirestoreAlert } from '../models/firestore';
 import { calculateDistance } from './stantonParser';
+import { StarSystemService } from '../services/StarSystemService';
+import { SpatialIndex } from './SpatialIndex';
+import { regionService } from '../services/RegionService';
 
 /**
  * Default expiration time for alerts (2 hours)
@@ -38,27 +41,27 @@ export function calculateSafetyScore(
  * Create a new route alert
  * @param userId The ID of the user creating the alert
  * @param position The position of the alert
- * @param regionId The ID of the region where the alert is located
+ * @param regionId The ID of the region where the alert is located, or null to look it up from the position
  * @param alertType The type of alert
  * @param shardId The ID of the shard where the alert was reported
  * @param description Optional description of the alert
+ * @param now Current time in milliseconds
  * @returns A new route alert object
  */
 export function createRouteAlert(
   userId: string,
   position: Position,
-  regionId: string,
+  regionId: string | null,
   alertType: AlertType,
   shardId: string,
-  description?: string
+  description?: string,
+  now = Date.now()
 ): FirestoreAlert {
-  const now = Date.now();
-  
   return {
     id: `alert_${now}_${userId.substring(0, 8)}`,
     location: {
       position,
-      regionId
+      regionId: regionId ?? regionService.regionIdFor(position)
     },
     alertType,
     createdBy: userId,
@@ -85,7 +88,7 @@ export function isAlertActive(alert: { expiresAt: number }): boolean {
 
 /**
  * Find alerts within a certain radius of a position
- * @param position The position to check
+ * @param position The absolute position to check, relative to the system's star
  * @param alerts The list of alerts to search
  * @param radius The radius to search within (in meters)
  * @returns A list of alerts within the radius
@@ -101,6 +104,84 @@ export function findAlertsInRadius(
   });
 }
 
+/**
+ * Find alerts within a certain radius of a celestial object
+ * The object's parent-relative position is resolved to an absolute one first
+ * @param system The service holding the object's system
+ * @param objectId The ID of the object to check around
+ * @param alerts The list of alerts to search
+ * @param radius The radius to search within (in meters)
+ * @returns A list of alerts within the radius, or none if the object is unknown
+ */
+export function findAlertsNearObject(
+  system: StarSystemService,
+  objectId: string,
+  alerts: RouteAlert[],
+  radius: number
+): RouteAlert[] {
+  const position = system.getAbsolutePosition(objectId);
+  if (!position) {
+    return [];
+  }
+  
+  return findAlertsInRadius(position, alerts, radius);
+}
+
+/**
+ * Build a spatial index over the active alerts, keyed by alert ID
+ * @param alerts The alerts to index
+ * @param now Current time in milliseconds, expired alerts are left out
+ * @returns An index to use with syncAlertIndex and findAlertsInRadiusIndexed
+ */
+export function buildAlertIndex(alerts: RouteAlert[], now = Date.now()): SpatialIndex<RouteAlert> {
+  const index = new SpatialIndex<RouteAlert>();
+  syncAlertIndex(index, alerts, now);
+  return index;
+}
+
+/**
+ * Bring an alert index up to date: add new alerts, move changed ones
+ * and drop alerts that expired or are no longer in the list
+ * @param index The index to update
+ * @param alerts The current list of alerts
+ * @param now Current time in milliseconds
+ */
+export function syncAlertIndex(
+  index: SpatialIndex<RouteAlert>,
+  alerts: RouteAlert[],
+  now = Date.now()
+): void {
+  const currentIds = new Set<string>();
+  
+  for (const alert of alerts) {
+    if (alert.expiresAt <= now) continue;
+    
+    currentIds.add(alert.id);
+    index.insert(alert.id, alert.location.position, alert);
+  }
+  
+  for (const entry of index.getEntries()) {
+    if (!currentIds.has(entry.id)) {
+      index.remove(entry.id);
+    }
+  }
+}
+
+/**
+ * Find alerts within a certain radius of a position using a spatial index
+ * @param index The alert index
+ * @param position The absolute position to check, relative to the system's star
+ * @param radius The radius to search within (in meters)
+ * @returns A list of alerts within the radius, closest first
+ */
+export function findAlertsInRadiusIndexed(
+  index: SpatialIndex<RouteAlert>,
+  position: Position,
+  radius: number
+): RouteAlert[] {
+  return index.withinRadius(position, radius).map(match => match.item);
+}
+
 /**
  * Calculate the total number of votes (confirmations + disputes) for an alert
  * @param alert The alert to calculate votes for
@@ -114,13 +195,14 @@ export function getTotalVotes(alert: FirestoreAlert): number {
  * Calculate the decay of an alert based on its age
  * @param alert The alert to calculate decay for
  * @param decayRate The rate at which alerts decay (0-1)
+ * @param now Current time in milliseconds
  * @returns The decay factor (0-1) where 0 means no decay and 1 means full decay
  */
 export function calculateAlertDecay(
   alert: { createdAt: number; expiresAt: number },
-  decayRate = 0.5
+  decayRate = 0.5,
+  now = Date.now()
 ): number {
-  const now = Date.now();
   const alertAge = now - alert.createdAt;
   const alertLifetime = alert.expiresAt - alert.createdAt;
   
@@ -0,0 +1,93 @@
+import { Position } from '../models/StarSystemTypes';
+import { calculateDistance, createZRotation, rotatePosition } from './SpaceUtils';
+
+/**
+ * Distance of L1 and L2 from their planet, as a fraction of the planet's orbit radius
+ * Matches the Lagrange points found in the Stanton extract
+ */
+export const LAGRANGE_L1_L2_OFFSET = 0.1;
+
+/**
+ * Error estimate (fraction of the orbit radius) used when no known Lagrange points can be checked
+ */
+const DEFAULT_RELATIVE_ERROR = 0.05;
+
+/**
+ * Smallest error estimate (fraction of the orbit radius), as the model ignores orbit eccentricity
+ */
+const MIN_RELATIVE_ERROR = 0.001;
+
+/**
+ * A Lagrange point whose position is known, used to check the model
+ */
+export interface KnownLagrangePoint {
+  lagrangeNumber: number;
+  planetPosition: Position; // Relative to the star
+  position: Position; // Relative to the star
+}
+
+/**
+ * Calculate the position of a planet's Lagrange point from its orbit around the star
+ * Orbits are assumed circular and in the star's XY plane
+ * @param planetPosition Position of the planet relative to the star
+ * @param lagrangeNumber Lagrange point number (1-5)
+ * @returns Position of the Lagrange point relative to the star
+ */
+export function calculateLagrangePoint(planetPosition: Position, lagrangeNumber: number): Position {
+  const scale = (factor: number): Position => ({
+    x: planetPosition.x * factor,
+    y: planetPosition.y * factor,
+    z: planetPosition.z * factor
+  });
+  
+  switch (lagrangeNumber) {
+    case 1:
+      // Between the star and the planet
+      return scale(1 - LAGRANGE_L1_L2_OFFSET);
+    case 2:
+      // Beyond the planet
+      return scale(1 + LAGRANGE_L1_L2_OFFSET);
+    case 3:
+      // Opposite side of the star
+      return scale(-1);
+    case 4:
+      // 60 degrees ahead of the planet on its orbit
+      return rotatePosition(planetPosition, createZRotation(Math.PI / 3));
+    case 5:
+      // 60 degrees behind the planet on its orbit
+      return rotatePosition(planetPosition, createZRotation(-Math.PI / 3));
+    default:
+      throw new Error(`Invalid Lagrange point number: ${lagrangeNumber}`);
+  }
+}
+
+/**
+ * Estimate the error of the Lagrange point model for each Lagrange number
+ * by comparing it against known Lagrange points
+ * @param knownPoints Lagrange points with known positions
+ * @returns The mean error per Lagrange number, as a fraction of the orbit radius
+ */
+export function estimateLagrangeErrors(knownPoints: KnownLagrangePoint[]): Record<number, number> {
+  const residuals: Record<number, number[]> = {};
+  
+  for (const known of knownPoints) {
+    const orbitRadius = calculateDistance({ x: 0, y: 0, z: 0 }, known.planetPosition);
+    if (orbitRadius === 0) continue;
+    
+    const calculated = calculateLagrangePoint(known.planetPosition, known.lagrangeNumber);
+    const residual = calculateDistance(calculated, known.position) / orbitRadius;
+    
+    residuals[known.lagrangeNumber] = [...(residuals[known.lagrangeNumber] || []), residual];
+  }
+  
+  const errors: Record<number, number> = {};
+  for (let lagrangeNumber = 1; lagrangeNumber <= 5; lagrangeNumber++) {
+    const values = residuals[lagrangeNumber];
+    const mean = values && values.length > 0
+      ? values.reduce((sum, value) => sum + value, 0) / values.length
+      : DEFAULT_RELATIVE_ERROR;
+    errors[lagrangeNumber] = Math.max(MIN_RELATIVE_ERROR, mean);
+  }
+  
+  return errors;
+}
@@ -0,0 +1,199 @@
+import { CelestialObject, ObjectType, Position, Rotation } from '../models/StarSystemTypes';
+import { StarSystemService } from '../services/StarSystemService';
+import { calculateDistance, rotatePosition, invertQuaternion } from './SpaceUtils';
+import { getObjectDisplayName } from './objectNames';
+
+/**
+ * Object types reported as the nearest body
+ */
+const BODY_TYPES: ObjectType[] = [
+  ObjectType.Star,
+  ObjectType.Planet,
+  ObjectType.Moon
+];
+
+/**
+ * Object types reported as the nearest navigation point
+ */
+const NAV_POINT_TYPES: ObjectType[] = [
+  ObjectType.Station,
+  ObjectType.SpaceStation,
+  ObjectType.RestStop,
+  ObjectType.OrbitMarker
+];
+
+/**
+ * Location parsed from the in-game /showlocation clipboard text
+ */
+export interface ParsedLocation {
+  position: Position; // In meters, relative to the zone
+  zone: string | null; // Zone the coordinates are relative to, if the text names one
+}
+
+/**
+ * Direction to an object, in degrees
+ */
+export interface Bearing {
+  azimuth: number; // 0-360, counter-clockwise from the frame's x axis in its XY plane
+  elevation: number; // -90 to 90, above the frame's XY plane
+}
+
+/**
+ * Distance and direction from a location to a nearby object
+ */
+export interface NearbyObject {
+  objectId: string;
+  displayName: string;
+  distance: number;
+  bearing: Bearing;
+}
+
+/**
+ * Answer to "where am I" for a parsed location
+ */
+export interface LocationReport {
+  position: Position; // Absolute position, relative to the system's star
+  zoneObjectId: string | null; // Object the zone was resolved to
+  nearestBody: NearbyObject | null;
+  nearestNavPoint: NearbyObject | null;
+  altitude: number | null; // Height above the nearest body's surface
+  inAtmosphere: boolean;
+}
+
+/**
+ * Parse the text copied by the in-game /showlocation command
+ * e.g. "Zone: OOC_Stanton_1_Hurston Coordinates: x:-12.5 y:1000 z:3.2"
+ * @param text The clipboard text
+ * @returns The coordinates and the zone they're relative to
+ */
+export function parseShowLocation(text: string): ParsedLocation {
+  const number = '(-?\\d+(?:\\.\\d+)?(?:e[+-]?\\d+)?)';
+  const readAxis = (axis: string): number | null => {
+    const match = text.match(new RegExp(`\\b${axis}\\s*[:=]\\s*${number}`, 'i'));
+    return match ? parseFloat(match[1]) : null;
+  };
+  
+  const x = readAxis('x');
+  const y = readAxis('y');
+  const z = readAxis('z');
+  if (x === null || y === null || z === null) {
+    throw new Error('Invalid location: expected x, y and z coordinates');
+  }
+  
+  const zoneMatch = text.match(/\bzone\s*[:=]\s*([\w.-]+)/i);
+  
+  return {
+    position: { x, y, z },
+    zone: zoneMatch ? zoneMatch[1] : null
+  };
+}
+
+/**
+ * Find the object a zone name refers to, by ID (aliases included), entity name or display name
+ * @returns The object ID, or null if the zone is unknown
+ */
+export function resolveZone(system: StarSystemService, zone: string): string | null {
+  const byId = system.getObjectById(zone);
+  if (byId) {
+    return byId.name;
+  }
+  
+  const normalizedZone = zone.toLowerCase();
+  const match = system.getAllObjects().find(object => 
+    object.name.toLowerCase() === normalizedZone ||
+    object.system_entity_name.toLowerCase() === normalizedZone ||
+    getObjectDisplayName(system, object).toLowerCase() === normalizedZone
+  );
+  
+  return match ? match.name : null;
+}
+
+/**
+ * Work out where a parsed location is: nearest body, nearest station or orbital marker,
+ * and the altitude above the surface
+ * @param system The service holding the loaded system
+ * @param location The parsed /showlocation output
+ * @param atTime Optional server time (ms), to account for spinning zones such as planets
+ * @returns The resolved location report
+ */
+export function resolveLocation(
+  system: StarSystemService,
+  location: ParsedLocation,
+  atTime?: number
+): LocationReport {
+  // Coordinates inside a zone are relative to the zone's object, otherwise to the star
+  const zoneObjectId = location.zone ? resolveZone(system, location.zone) : null;
+  if (location.zone && !zoneObjectId) {
+    console.warn(`Unknown zone ${location.zone}, treating coordinates as system coordinates`);
+  }
+  
+  const position = zoneObjectId
+    ? system.localToWorld(zoneObjectId, location.position, atTime) || location.position
+    : location.position;
+  
+  // Bearings are given in the zone's frame when there is one
+  const frameRotation = zoneObjectId ? system.getWorldOrientation(zoneObjectId, atTime) : null;
+  
+  const describe = (object: CelestialObject): NearbyObject => {
+    const objectPosition = system.getAbsolutePosition(object.name, atTime) || object.position;
+    return {
+      objectId: object.name,
+      displayName: getObjectDisplayName(system, object),
+      distance: calculateDistance(position, objectPosition),
+      bearing: calculateBearing(position, objectPosition, frameRotation ? invertQuaternion(frameRotation) : null)
+    };
+  };
+  
+  const findNearest = (types: ObjectType[]): { object: CelestialObject; nearby: NearbyObject } | null => {
+    let nearest: { object: CelestialObject; nearby: NearbyObject } | null = null;
+    for (const type of types) {
+      for (const object of system.getObjectsByType(type)) {
+        const nearby = describe(object);
+        if (!nearest || nearby.distance < nearest.nearby.distance) {
+          nearest = { object, nearby };
+        }
+      }
+    }
+    return nearest;
+  };
+  
+  const nearestBody = findNearest(BODY_TYPES);
+  const nearestNavPoint = findNearest(NAV_POINT_TYPES);
+  
+  // The size of a body is its radius
+  const altitude = nearestBody ? nearestBody.nearby.distance - nearestBody.object.size : null;
+  
+  return {
+    position,
+    zoneObjectId,
+    nearestBody: nearestBody?.nearby || null,
+    nearestNavPoint: nearestNavPoint?.nearby || null,
+    altitude,
+    inAtmosphere: nearestBody !== null && altitude !== null &&
+      altitude <= nearestBody.object.atmoHeight
+  };
+}
+
+/**
+ * Calculate the direction from one position to another
+ * @param from The observer's absolute position
+ * @param to The target's absolute position
+ * @param toFrame Optional rotation from the system frame into the frame bearings are given in
+ */
+function calculateBearing(from: Position, to: Position, toFrame: Rotation | null): Bearing {
+  let direction: Position = { x: to.x - from.x, y: to.y - from.y, z: to.z - from.z };
+  if (toFrame) {
+    direction = rotatePosition(direction, toFrame);
+  }
+  
+  const length = Math.sqrt(direction.x * direction.x + direction.y * direction.y + direction.z * direction.z);
+  if (length === 0) {
+    return { azimuth: 0, elevation: 0 };
+  }
+  
+  const azimuth = Math.atan2(direction.y, direction.x) * 180 / Math.PI;
+  return {
+    azimuth: (azimuth + 360) % 360,
+    elevation: Math.asin(direction.z / length) * 180 / Math.PI
+  };
+}
@@ -0,0 +1,44 @@
+import { CelestialObject, ObjectType } from '../models/StarSystemTypes';
+import { StarSystemService } from '../services/StarSystemService';
+import { SystemRegistry } from '../services/SystemRegistry';
+
+/**
+ * Get the name pilots know an object by
+ * Lagrange points are named after their planet, e.g. "Crusader L1"
+ * @param system The service holding the object's system
+ * @param object The object
+ * @returns The display name
+ */
+export function getObjectDisplayName(system: StarSystemService, object: CelestialObject): string {
+  const name = object.display_name || object.name;
+  if (object.type === ObjectType.LagrangePoint && object.parent) {
+    const planet = system.getObjectById(object.parent);
+    if (planet?.display_name && !name.startsWith(planet.display_name)) {
+      return `${planet.display_name} ${name}`;
+    }
+  }
+  
+  return name;
+}
+
+/**
+ * Get the name pilots know an object of a registered system by
+ * @param registry The registry holding the object's system
+ * @param systemName System the object belongs to
+ * @param object The object, if it was found
+ * @param fallback Name to use when the object wasn't found
+ * @returns The display name
+ */
+export function getDisplayName(
+  registry: SystemRegistry,
+  systemName: string,
+  object: CelestialObject | undefined,
+  fallback: string
+): string {
+  if (!object) {
+    return fallback;
+  }
+  
+  const service = registry.getService(systemName);
+  return service ? getObjectDisplayName(service, object) : object.display_name || object.name;
+}
@@ -0,0 +1,106 @@
+import { ShipSpecification } from '../models/stanton';
+
+/**
+ * Default quantum travel speed in m/s if not specified
+ */
+export const DEFAULT_QUANTUM_SPEED = 200000;
+
+/**
+ * Default quantum drive acceleration in m/s² if not specified
+ */
+export const DEFAULT_QUANTUM_ACCELERATION = 20000;
+
+/**
+ * Default time in seconds to spool the quantum drive before a jump
+ */
+export const DEFAULT_QUANTUM_SPOOL_TIME = 5;
+
+/**
+ * Default time in seconds before the quantum drive can be spooled again
+ */
+export const DEFAULT_QUANTUM_COOLDOWN_TIME = 10;
+
+/**
+ * Quantum drive characteristics used by the travel time model
+ */
+export interface QuantumDriveProfile {
+  quantumSpeed: number; // Cruise speed in m/s
+  acceleration: number; // m/s²
+  deceleration: number; // m/s²
+  spoolTime: number; // Seconds
+  cooldownTime: number; // Seconds
+}
+
+/**
+ * Time spent in each stage of a single quantum jump, in seconds
+ */
+export interface QuantumTravelBreakdown {
+  spool: number;
+  acceleration: number;
+  cruise: number;
+  deceleration: number;
+  cooldown: number;
+  total: number;
+  peakSpeed: number; // Highest speed reached in m/s, below cruise speed on short hops
+}
+
+/**
+ * Get the quantum drive profile of a ship, filling in defaults for missing values
+ * @param ship Optional ship specifications
+ * @returns The drive profile
+ */
+export function getQuantumDriveProfile(ship?: ShipSpecification): QuantumDriveProfile {
+  const acceleration = ship?.quantumAcceleration || DEFAULT_QUANTUM_ACCELERATION;
+  
+  return {
+    quantumSpeed: ship?.quantumSpeed || DEFAULT_QUANTUM_SPEED,
+    acceleration,
+    deceleration: ship?.quantumDeceleration || acceleration,
+    spoolTime: ship?.quantumSpoolTime ?? DEFAULT_QUANTUM_SPOOL_TIME,
+    cooldownTime: ship?.quantumCooldownTime ?? DEFAULT_QUANTUM_COOLDOWN_TIME
+  };
+}
+
+/**
+ * Calculate the time of a quantum jump over a distance, stage by stage
+ * Hops too short to reach cruise speed start decelerating halfway through the ramp
+ * @param distance Distance of the jump in meters
+ * @param drive The quantum drive profile
+ * @param includeCooldown Whether the drive cooldown counts towards the jump, e.g. when another jump follows
+ * @returns The time spent in each stage
+ */
+export function calculateQuantumTravelTime(
+  distance: number,
+  drive: QuantumDriveProfile,
+  includeCooldown = true
+): QuantumTravelBreakdown {
+  if (distance <= 0) {
+    return { spool: 0, acceleration: 0, cruise: 0, deceleration: 0, cooldown: 0, total: 0, peakSpeed: 0 };
+  }
+  
+  const { quantumSpeed, acceleration, deceleration } = drive;
+  
+  // Distance covered while ramping up to and down from cruise speed
+  const rampDistance = quantumSpeed * quantumSpeed / (2 * acceleration)
+    + quantumSpeed * quantumSpeed / (2 * deceleration);
+  
+  const peakSpeed = distance >= rampDistance
+    ? quantumSpeed
+    : Math.sqrt(2 * distance * acceleration * deceleration / (acceleration + deceleration));
+  
+  const spool = drive.spoolTime;
+  const accelerationTime = peakSpeed / acceleration;
+  const decelerationTime = peakSpeed / deceleration;
+  const cruise = Math.max(distance - rampDistance, 0) / quantumSpeed;
+  const cooldown = includeCooldown ? drive.cooldownTime : 0;
+  
+  return {
+    spool,
+    acceleration: accelerationTime,
+    cruise,
+    deceleration: decelerationTime,
+    cooldown,
+    total: spool + accelerationTime + cruise + decelerationTime + cooldown,
+    peakSpeed
+  };
+}
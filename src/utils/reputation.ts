@@ -0,0 +1,148 @@
+import { FirestoreAlert, FirestoreReputationEvent, FirestoreUser } from '../models/firestore';
+import { NEW_ACCOUNT_VOTE_WEIGHT, sumVoteWeights, VoterWeights } from './alertLifecycle';
+
+/**
+ * Age below which an account counts as brand new (7 days)
+ */
+export const NEW_ACCOUNT_AGE = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Smallest vote weight of an established account, however low its reputation
+ */
+export const MIN_VOTE_WEIGHT = 0.1;
+
+/**
+ * Largest vote weight of any account, so no single voter can decide an alert
+ */
+export const MAX_VOTE_WEIGHT = 3;
+
+/**
+ * Reputation worth one extra vote
+ */
+const REPUTATION_PER_VOTE = 100;
+
+/**
+ * Weight of independent votes an alert needs before it affects its reporter's reputation
+ */
+export const MIN_SETTLEMENT_WEIGHT = 1;
+
+/**
+ * Reputation gained when a report ends up confirmed
+ */
+export const CONFIRMED_REPORT_REWARD = 5;
+
+/**
+ * Reputation lost when a report ends up disputed
+ */
+export const DISPUTED_REPORT_PENALTY = 10;
+
+/**
+ * A reporter with their updated reputation and the record of the change
+ */
+export interface ReputationSettlement {
+  user: FirestoreUser;
+  event: FirestoreReputationEvent;
+}
+
+/**
+ * Get how much a user's vote counts
+ * Weight grows with reputation, brand-new accounts are capped to a fraction of a vote
+ * @param user The voter, or undefined if their account is unknown
+ * @param now Current time in milliseconds
+ * @returns The vote weight
+ */
+export function getVoteWeight(
+  user: Pick<FirestoreUser, 'reputation' | 'createdAt'> | undefined,
+  now = Date.now()
+): number {
+  if (!user) {
+    return NEW_ACCOUNT_VOTE_WEIGHT;
+  }
+  
+  const weight = Math.max(MIN_VOTE_WEIGHT, Math.min(MAX_VOTE_WEIGHT, 1 + user.reputation / REPUTATION_PER_VOTE));
+  return now - user.createdAt < NEW_ACCOUNT_AGE ? Math.min(weight, NEW_ACCOUNT_VOTE_WEIGHT) : weight;
+}
+
+/**
+ * Get the vote weights of everyone who voted on an alert and of the given users,
+ * so the weights also cover a vote about to be cast by one of them
+ * @param alert The alert
+ * @param users Known users, voters missing from the list count as brand new
+ * @param now Current time in milliseconds
+ * @returns Vote weights keyed by user ID, for the alert lifecycle functions
+ */
+export function getVoterWeights(
+  alert: FirestoreAlert,
+  users: FirestoreUser[],
+  now = Date.now()
+): VoterWeights {
+  const usersById = new Map(users.map(user => [user.uid, user]));
+  const weights: VoterWeights = {};
+  
+  for (const userId of [...Object.keys(alert.confirmations), ...Object.keys(alert.disputes), ...usersById.keys()]) {
+    weights[userId] = getVoteWeight(usersById.get(userId), now);
+  }
+  
+  return weights;
+}
+
+/**
+ * Get the ID of the reputation event settling an alert for its reporter
+ * Each alert is settled at most once, so the ID doubles as the event's document ID
+ */
+export function getSettlementEventId(alert: FirestoreAlert, reporter: FirestoreUser): string {
+  return `${alert.id}_${reporter.uid}`;
+}
+
+/**
+ * Update a reporter's reputation once their alert is no longer active
+ * Only votes by other users count, and only when they carry enough weight together
+ * @param alert The reporter's alert
+ * @param reporter The user who created the alert
+ * @param weights Vote weights of the voters
+ * @param pastEvents The reporter's recorded reputation events, an alert already settled in them isn't settled again
+ * @param now Current time in milliseconds
+ * @returns The updated reporter and the change to record, or null if the alert doesn't affect their reputation (anymore)
+ * @throws Error if the user didn't create the alert
+ */
+export function settleReporterReputation(
+  alert: FirestoreAlert,
+  reporter: FirestoreUser,
+  weights: VoterWeights,
+  pastEvents: FirestoreReputationEvent[] = [],
+  now = Date.now()
+): ReputationSettlement | null {
+  if (reporter.uid !== alert.createdBy) {
+    throw new Error(`User ${reporter.uid} didn't report alert ${alert.id}`);
+  }
+  const eventId = getSettlementEventId(alert, reporter);
+  if ((alert.isActive && now < alert.expiresAt) || pastEvents.some(event => event.id === eventId)) {
+    return null;
+  }
+  
+  const otherConfirmations = { ...alert.confirmations };
+  delete otherConfirmations[reporter.uid];
+  
+  const confirmed = sumVoteWeights(otherConfirmations, weights);
+  const disputed = sumVoteWeights(alert.disputes, weights);
+  if (confirmed + disputed < MIN_SETTLEMENT_WEIGHT || confirmed === disputed) {
+    return null;
+  }
+  
+  const change = confirmed > disputed ? CONFIRMED_REPORT_REWARD : -DISPUTED_REPORT_PENALTY;
+  const reputation = reporter.reputation + change;
+  
+  return {
+    user: { ...reporter, reputation },
+    event: {
+      id: eventId,
+      userId: reporter.uid,
+      alertId: alert.id,
+      reason: change > 0 ? 'alertConfirmed' : 'alertDisputed',
+      change,
+      reputationBefore: reporter.reputation,
+      reputationAfter: reputation,
+      createdAt: now
+    }
+  };
+}
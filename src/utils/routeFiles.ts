@@ -0,0 +1,440 @@
+import { Position, Route } from '../models/stanton';
+import { STANTON_DEFINITION } from '../data/systemDefinitions';
+import { SystemRegistry, systemRegistry } from '../services/SystemRegistry';
+import { calculateDistance } from './stantonParser';
+import { getDisplayName } from './objectNames';
+import { RoutePlan, RouteStop } from './routePlanner';
+
+/**
+ * File formats routes can be exported to and imported from
+ */
+export type RouteFileFormat = 'csv' | 'xml';
+
+/**
+ * Imported coordinates further than this (in meters) from every object stay unmatched
+ */
+export const DEFAULT_IMPORT_MATCH_RADIUS = 100000;
+
+/**
+ * Columns of exported CSV files
+ */
+const CSV_COLUMNS = ['index', 'system', 'object_id', 'name', 'x', 'y', 'z', 'leg_distance'];
+
+/**
+ * A waypoint as written to a route file
+ */
+export interface ExportedWaypoint {
+  index: number;
+  systemName: string;
+  objectId: string;
+  displayName: string;
+  position: Position; // Absolute position, relative to the system's star
+  legDistance: number; // Meters from the previous waypoint, 0 for the first one and for jumps
+}
+
+/**
+ * How an imported waypoint was matched to a known object
+ */
+export type WaypointMatchMethod = 'id' | 'name' | 'position';
+
+/**
+ * An imported waypoint matched to a known object
+ */
+export interface ImportedWaypoint {
+  index: number; // Position of the waypoint in the file
+  stop: RouteStop;
+  displayName: string;
+  matchedBy: WaypointMatchMethod;
+  distance: number | null; // Meters between the file's coordinates and the object, when matched by position
+}
+
+/**
+ * An imported waypoint no known object could be found for
+ */
+export interface UnmatchedWaypoint {
+  index: number;
+  name: string | null;
+  position: Position | null;
+  reason: string;
+}
+
+/**
+ * Result of importing a route file
+ */
+export interface RouteImportResult {
+  waypoints: ImportedWaypoint[]; // Matched waypoints in file order, ready for planRouteThrough
+  unmatched: UnmatchedWaypoint[];
+}
+
+/**
+ * Optional settings for route imports
+ */
+export interface RouteImportOptions {
+  defaultSystem?: string; // System of waypoints that don't name one, Stanton by default
+  matchRadius?: number; // See DEFAULT_IMPORT_MATCH_RADIUS
+}
+
+/**
+ * Waypoint fields read from a file, before matching
+ */
+interface RawWaypoint {
+  systemName: string | null;
+  objectId: string | null;
+  name: string | null;
+  position: Position | null;
+}
+
+/**
+ * Export a planned route
+ * @param route The planned route
+ * @param format Output file format
+ * @param registry The registry holding the systems the route passes through
+ * @param name Optional route name, written to XML files
+ * @returns The file contents
+ */
+export function exportRoutePlan(
+  route: RoutePlan,
+  format: RouteFileFormat,
+  registry: SystemRegistry = systemRegistry,
+  name?: string
+): string {
+  const waypoints = route.waypoints.map((waypoint, index) => ({
+    index,
+    systemName: waypoint.systemName,
+    objectId: waypoint.objectId,
+    displayName: getDisplayName(
+      registry,
+      waypoint.systemName,
+      registry.getService(waypoint.systemName)?.getObjectById(waypoint.objectId),
+      waypoint.objectId
+    ),
+    position: waypoint.position,
+    legDistance: waypoint.distance
+  }));
+  
+  return formatWaypoints(waypoints, format, name);
+}
+
+/**
+ * Export a saved route
+ * Saved routes don't record their system, so it has to be given
+ * @param route The saved route
+ * @param systemName System the route lies in
+ * @param format Output file format
+ * @param registry The registry holding the system
+ * @returns The file contents
+ */
+export function exportSavedRoute(
+  route: Route,
+  systemName: string,
+  format: RouteFileFormat,
+  registry: SystemRegistry = systemRegistry
+): string {
+  const service = registry.getService(systemName);
+  if (!service) {
+    throw new Error(`System ${systemName} is not loaded`);
+  }
+  
+  const objectIds = route.waypoints.length > 0 ? route.waypoints : [route.startPoint, route.endPoint];
+  const waypoints: ExportedWaypoint[] = [];
+  for (const [index, objectId] of objectIds.entries()) {
+    const object = service.getObjectById(objectId);
+    const position = service.getAbsolutePosition(objectId);
+    if (!object || !position) {
+      throw new Error(`Object ${objectId} not found in ${service.getSystemName()} data`);
+    }
+  
+    waypoints.push({
+      index,
+      systemName: service.getSystemName(),
+      objectId,
+      displayName: getDisplayName(registry, systemName, object, objectId),
+      position,
+      legDistance: index === 0 ? 0 : calculateDistance(waypoints[index - 1].position, position)
+    });
+  }
+  
+  return formatWaypoints(waypoints, format, route.id);
+}
+
+/**
+ * Import the waypoints of a route file, matching them to known objects
+ * Waypoints are matched by object ID first, then by name, then by coordinates
+ * @param content The file contents
+ * @param format Input file format
+ * @param registry The registry holding the loaded systems
+ * @param options Optional import settings
+ * @returns The matched waypoints and the ones that couldn't be matched
+ * @throws Error if the file itself can't be read
+ */
+export function importRoute(
+  content: string,
+  format: RouteFileFormat,
+  registry: SystemRegistry = systemRegistry,
+  options: RouteImportOptions = {}
+): RouteImportResult {
+  const rawWaypoints = format === 'csv' ? parseCsvWaypoints(content) : parseXmlWaypoints(content);
+  const result: RouteImportResult = { waypoints: [], unmatched: [] };
+  
+  for (const [index, raw] of rawWaypoints.entries()) {
+    const match = matchWaypoint(raw, index, registry, options);
+    if ('reason' in match) {
+      result.unmatched.push(match);
+    } else {
+      result.waypoints.push(match);
+    }
+  }
+  
+  return result;
+}
+
+/**
+ * Write waypoints in the given file format
+ */
+function formatWaypoints(waypoints: ExportedWaypoint[], format: RouteFileFormat, name?: string): string {
+  return format === 'csv' ? formatCsv(waypoints) : formatXml(waypoints, name);
+}
+
+/**
+ * Write waypoints as CSV, one row per waypoint after a header row
+ */
+function formatCsv(waypoints: ExportedWaypoint[]): string {
+  const rows = waypoints.map(waypoint => [
+    String(waypoint.index + 1),
+    waypoint.systemName,
+    waypoint.objectId,
+    waypoint.displayName,
+    String(waypoint.position.x),
+    String(waypoint.position.y),
+    String(waypoint.position.z),
+    String(waypoint.legDistance)
+  ]);
+  
+  return [CSV_COLUMNS, ...rows]
+    .map(row => row.map(escapeCsvField).join(','))
+    .join('\n') + '\n';
+}
+
+/**
+ * Write waypoints as a GPX-like XML route, with system coordinates in place of latitude and longitude
+ */
+function formatXml(waypoints: ExportedWaypoint[], name?: string): string {
+  const points = waypoints.map(waypoint => [
+    `    <rtept system="${escapeXml(waypoint.systemName)}" id="${escapeXml(waypoint.objectId)}" x="${waypoint.position.x}" y="${waypoint.position.y}" z="${waypoint.position.z}">`,
+    `      <name>${escapeXml(waypoint.displayName)}</name>`,
+    `      <legDistance>${waypoint.legDistance}</legDistance>`,
+    '    </rtept>'
+  ].join('\n'));
+  
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="scumaps">',
+    '  <rte>',
+    ...(name ? [`    <name>${escapeXml(name)}</name>`] : []),
+    ...points,
+    '  </rte>',
+    '</gpx>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Quote a CSV field when it contains separators, quotes or line breaks
+ */
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Escape text for use in XML content and attributes
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  
+  for (let i = 0; i < content.length; i++) {
+    const character = content[i];
+    if (quoted) {
+      if (character === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (character === '"') {
+        quoted = false;
+      } else {
+        field += character;
+      }
+    } else if (character === '"') {
+      quoted = true;
+    } else if (character === ',') {
+      row.push(field);
+      field = '';
+    } else if (character === '\n' || character === '\r') {
+      if (character === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += character;
+    }
+  }
+  
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  
+  // Drop blank lines
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+/**
+ * Read waypoints from CSV text with a header row
+ * Columns are found by name, so files from other tools only need some of them
+ */
+function parseCsvWaypoints(content: string): RawWaypoint[] {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) {
+    throw new Error('Route file is empty');
+  }
+  
+  const columns = header.map(column => column.trim().toLowerCase());
+  const column = (...names: string[]) => columns.findIndex(name => names.includes(name));
+  const systemColumn = column('system');
+  const idColumn = column('object_id', 'id');
+  const nameColumn = column('name', 'display_name');
+  const xColumn = column('x');
+  const yColumn = column('y');
+  const zColumn = column('z');
+  if (idColumn === -1 && nameColumn === -1 && xColumn === -1) {
+    throw new Error('Route file has no object_id, name or coordinate columns');
+  }
+  
+  const text = (fields: string[], index: number) => index === -1 ? null : fields[index]?.trim() || null;
+  
+  return rows.map(fields => ({
+    systemName: text(fields, systemColumn),
+    objectId: text(fields, idColumn),
+    name: text(fields, nameColumn),
+    position: parsePosition(text(fields, xColumn), text(fields, yColumn), text(fields, zColumn))
+  }));
+}
+
+/**
+ * Read waypoints from a GPX-like XML route
+ * Both route points (rtept) and plain waypoints (wpt) are accepted
+ */
+function parseXmlWaypoints(content: string): RawWaypoint[] {
+  const document = new DOMParser().parseFromString(content, 'application/xml');
+  if (document.querySelector('parsererror')) {
+    throw new Error('Route file is not valid XML');
+  }
+  
+  return Array.from(document.querySelectorAll('rtept, wpt')).map(element => ({
+    systemName: element.getAttribute('system'),
+    objectId: element.getAttribute('id'),
+    name: element.querySelector('name')?.textContent?.trim() || null,
+    position: parsePosition(element.getAttribute('x'), element.getAttribute('y'), element.getAttribute('z'))
+  }));
+}
+
+/**
+ * Read a position from its coordinate texts, or null if any is missing or not a number
+ */
+function parsePosition(x: string | null, y: string | null, z: string | null): Position | null {
+  if (x === null || y === null || z === null) {
+    return null;
+  }
+  
+  const position = { x: Number(x), y: Number(y), z: Number(z) };
+  return [position.x, position.y, position.z].every(Number.isFinite) ? position : null;
+}
+
+/**
+ * Match a waypoint from a file to a known object
+ */
+function matchWaypoint(
+  raw: RawWaypoint,
+  index: number,
+  registry: SystemRegistry,
+  options: RouteImportOptions
+): ImportedWaypoint | UnmatchedWaypoint {
+  const unmatched = (reason: string): UnmatchedWaypoint => ({ index, name: raw.name, position: raw.position, reason });
+  const matched = (systemName: string, objectId: string, matchedBy: WaypointMatchMethod, distance: number | null): ImportedWaypoint => {
+    const service = registry.getService(systemName)!;
+    return {
+      index,
+      stop: { systemName: service.getSystemName(), objectId },
+      displayName: getDisplayName(registry, systemName, service.getObjectById(objectId), objectId),
+      matchedBy,
+      distance
+    };
+  };
+  
+  if (raw.systemName && !registry.getService(raw.systemName)) {
+    return unmatched(`System ${raw.systemName} is not loaded`);
+  }
+  const systemNames = raw.systemName ? [raw.systemName] : registry.getLoadedSystemNames();
+  
+  // Object IDs are exact
+  if (raw.objectId) {
+    const systemName = systemNames.find(name => registry.getService(name)?.getObjectById(raw.objectId!));
+    if (systemName) {
+      return matched(systemName, raw.objectId, 'id', null);
+    }
+  }
+  
+  // Names must identify a single object
+  if (raw.name) {
+    const wanted = raw.name.toLowerCase();
+    const candidates = systemNames.flatMap(systemName =>
+      (registry.getService(systemName)?.getAllObjects() || [])
+        .filter(object =>
+          object.name.toLowerCase() === wanted ||
+          getDisplayName(registry, systemName, object, object.name).toLowerCase() === wanted
+        )
+        .map(object => ({ systemName, objectId: object.name, computed: object.computed === true }))
+    );
+    // Objects from the extract win over ones the service computed in their place
+    const extracted = candidates.filter(candidate => !candidate.computed);
+    const [match] = extracted.length === 1 ? extracted : candidates;
+    if (candidates.length === 1 || extracted.length === 1) {
+      return matched(match.systemName, match.objectId, 'name', null);
+    }
+    if (candidates.length > 1 && !raw.position) {
+      return unmatched(`Name ${raw.name} matches ${candidates.length} objects`);
+    }
+  }
+  
+  // Coordinates are relative to the system's star, so they need a system
+  if (raw.position) {
+    const systemName = raw.systemName || options.defaultSystem || STANTON_DEFINITION.name;
+    const service = registry.getService(systemName);
+    if (!service) {
+      return unmatched(`System ${systemName} is not loaded`);
+    }
+  
+    const matchRadius = options.matchRadius ?? DEFAULT_IMPORT_MATCH_RADIUS;
+    const [nearest] = service.getSpatialIndex().nearest(raw.position, 1);
+    if (nearest && nearest.distance <= matchRadius) {
+      return matched(systemName, nearest.item.name, 'position', nearest.distance);
+    }
+    return unmatched(`No object within ${matchRadius} m of the coordinates`);
+  }
+  
+  return unmatched(raw.objectId || raw.name ? 'No object with this ID or name' : 'Waypoint has no ID, name or coordinates');
+}
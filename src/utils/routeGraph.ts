@@ -0,0 +1,214 @@
+import { CelestialObject, ObjectType, Position } from '../models/StarSystemTypes';
+import { calculateDistance, calculateDistanceToSegment } from './SpaceUtils';
+
+/**
+ * Object types that can be selected as quantum travel targets
+ */
+export const QUANTUM_TARGET_TYPES: ObjectType[] = [
+  ObjectType.Planet,
+  ObjectType.Moon,
+  ObjectType.LagrangePoint,
+  ObjectType.Station,
+  ObjectType.SpaceStation,
+  ObjectType.RestStop,
+  ObjectType.OrbitMarker,
+  ObjectType.JumpPoint
+];
+
+/**
+ * Object types whose volume blocks quantum travel
+ */
+const OBSTACLE_TYPES: ObjectType[] = [
+  ObjectType.Star,
+  ObjectType.Planet,
+  ObjectType.Moon
+];
+
+/**
+ * A node of the quantum travel graph
+ */
+export interface QuantumGraphNode {
+  id: string;
+  position: Position;
+  insideObstacle: boolean; // Body centers and surface locations can only start or end a route
+}
+
+/**
+ * A body that a quantum leg must not pass through
+ */
+export interface QuantumObstacle {
+  id: string;
+  position: Position;
+  radius: number;
+}
+
+/**
+ * Graph of quantum travel targets, fully connected except for obstructed legs
+ */
+export interface QuantumGraph {
+  nodes: Map<string, QuantumGraphNode>;
+  obstacles: QuantumObstacle[];
+  legCache: Map<string, QuantumObstacle | null>; // Obstruction per checked leg
+}
+
+/**
+ * Cost model used by the path search
+ */
+export interface PathCost {
+  edgeCost: (from: QuantumGraphNode, to: QuantumGraphNode) => number;
+  heuristic: (node: QuantumGraphNode, end: QuantumGraphNode) => number; // Must never overestimate the remaining cost
+}
+
+/**
+ * Default cost model: straight-line distance
+ */
+const DISTANCE_COST: PathCost = {
+  edgeCost: (from, to) => calculateDistance(from.position, to.position),
+  heuristic: (node, end) => calculateDistance(node.position, end.position)
+};
+
+/**
+ * Build the quantum travel graph for a set of objects
+ * @param objects All objects of the system
+ * @param getPosition Resolves the position used for an object
+ * @param includeIds Objects to add as nodes even if they aren't quantum targets (e.g. route start and end)
+ * @returns The graph, with legs checked lazily
+ */
+export function buildQuantumGraph(
+  objects: CelestialObject[],
+  getPosition: (object: CelestialObject) => Position,
+  includeIds: string[] = []
+): QuantumGraph {
+  const nodes = new Map<string, QuantumGraphNode>();
+  const obstacles: QuantumObstacle[] = [];
+  
+  for (const object of objects) {
+    const position = getPosition(object);
+    
+    if (QUANTUM_TARGET_TYPES.includes(object.type) || includeIds.includes(object.name)) {
+      nodes.set(object.name, { id: object.name, position, insideObstacle: false });
+    }
+    
+    if (OBSTACLE_TYPES.includes(object.type)) {
+      const radius = Math.max(object.obstructionRadius, object.size + object.atmoHeight);
+      if (radius > 0) {
+        obstacles.push({ id: object.name, position, radius });
+      }
+    }
+  }
+  
+  for (const node of nodes.values()) {
+    node.insideObstacle = obstacles.some(obstacle => 
+      calculateDistance(obstacle.position, node.position) <= obstacle.radius
+    );
+  }
+  
+  return { nodes, obstacles, legCache: new Map() };
+}
+
+/**
+ * Find the body blocking the straight leg between two nodes
+ * Bodies containing either end of the leg are ignored, so legs can leave or reach
+ * a surface location or the body itself
+ * @returns The blocking obstacle, or null if the leg is clear
+ */
+export function findObstruction(graph: QuantumGraph, fromId: string, toId: string): QuantumObstacle | null {
+  const key = fromId < toId ? `${fromId}|${toId}` : `${toId}|${fromId}`;
+  const cached = graph.legCache.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+  
+  const from = graph.nodes.get(fromId);
+  const to = graph.nodes.get(toId);
+  if (!from || !to) {
+    throw new Error(`Unknown graph node: ${!from ? fromId : toId}`);
+  }
+  
+  let obstruction: QuantumObstacle | null = null;
+  for (const obstacle of graph.obstacles) {
+    const containsEnd = 
+      calculateDistance(obstacle.position, from.position) <= obstacle.radius ||
+      calculateDistance(obstacle.position, to.position) <= obstacle.radius;
+    if (containsEnd) continue;
+    
+    if (calculateDistanceToSegment(obstacle.position, from.position, to.position) < obstacle.radius) {
+      obstruction = obstacle;
+      break;
+    }
+  }
+  
+  graph.legCache.set(key, obstruction);
+  return obstruction;
+}
+
+/**
+ * Find the cheapest unobstructed path between two nodes using A*
+ * @param graph The quantum travel graph
+ * @param startId ID of the start node
+ * @param endId ID of the destination node
+ * @param cost Cost model, the straight-line distance by default
+ * @returns Node IDs from start to end, or null if the destination can't be reached
+ */
+export function findShortestPath(
+  graph: QuantumGraph,
+  startId: string,
+  endId: string,
+  cost: PathCost = DISTANCE_COST
+): string[] | null {
+  const start = graph.nodes.get(startId);
+  const end = graph.nodes.get(endId);
+  if (!start || !end) {
+    return null;
+  }
+  
+  const costs = new Map<string, number>([[startId, 0]]);
+  const estimates = new Map<string, number>([[startId, cost.heuristic(start, end)]]);
+  const previous = new Map<string, string>();
+  const open = new Set<string>([startId]);
+  const closed = new Set<string>();
+  
+  while (open.size > 0) {
+    // Pick the open node with the lowest estimated total cost
+    let currentId = '';
+    let lowestEstimate = Infinity;
+    for (const id of open) {
+      const estimate = estimates.get(id)!;
+      if (estimate < lowestEstimate) {
+        lowestEstimate = estimate;
+        currentId = id;
+      }
+    }
+    
+    if (currentId === endId) {
+      const path = [endId];
+      while (path[0] !== startId) {
+        path.unshift(previous.get(path[0])!);
+      }
+      return path;
+    }
+    
+    open.delete(currentId);
+    closed.add(currentId);
+    const current = graph.nodes.get(currentId)!;
+    
+    for (const neighbour of graph.nodes.values()) {
+      if (closed.has(neighbour.id)) continue;
+      // Don't pass through a body center or surface location on the way elsewhere
+      if (neighbour.insideObstacle && neighbour.id !== endId) continue;
+      
+      const pathCost = costs.get(currentId)! + cost.edgeCost(current, neighbour);
+      if (pathCost >= (costs.get(neighbour.id) ?? Infinity)) continue;
+      
+      // Only check the leg once it could improve the path
+      if (findObstruction(graph, currentId, neighbour.id)) continue;
+      
+      costs.set(neighbour.id, pathCost);
+      estimates.set(neighbour.id, pathCost + cost.heuristic(neighbour, end));
+      previous.set(neighbour.id, currentId);
+      open.add(neighbour.id);
+    }
+  }
+  
+  return null;
+}
@@ -0,0 +1,251 @@
+import { CelestialObject, DistanceUnit, ObjectType } from '../models/StarSystemTypes';
+import { SystemRegistry, systemRegistry } from '../services/SystemRegistry';
+import { convertDistance } from './SpaceUtils';
+import { getDisplayName } from './objectNames';
+import { RoutePlan, RouteWaypoint } from './routePlanner';
+
+/**
+ * What the pilot does in a navigation step
+ */
+export type RouteInstructionAction = 'depart' | 'ascend' | 'quantum' | 'descend' | 'refuel' | 'jump' | 'arrive';
+
+/**
+ * Output formats for a list of instructions
+ */
+export type RouteInstructionFormat = 'text' | 'markdown';
+
+/**
+ * A single turn-by-turn navigation step
+ */
+export interface RouteInstruction {
+  step: number; // 1-based position in the list
+  action: RouteInstructionAction;
+  systemName: string; // System the step ends in
+  objectId: string; // Object the step leads to (or starts from, for departures)
+  displayName: string;
+  bodyName?: string; // Body whose atmosphere is crossed, ascend and descend steps only
+  distance: number | null; // Meters covered by the step, if known
+  time: number | null; // Seconds the step takes, if known
+  text: string; // Plain text description
+}
+
+/**
+ * Object types located on the surface of their parent body
+ */
+const SURFACE_TYPES: string[] = [ObjectType.LandingZone, ObjectType.Outpost];
+
+/**
+ * Format a distance in meters for display, in Gm or km
+ * @param meters Distance in meters
+ * @returns The formatted distance, e.g. "12.4 Gm" or "600 km"
+ */
+export function formatDistance(meters: number): string {
+  const kilometers = meters / 1000;
+  const gigameters = convertDistance(kilometers, DistanceUnit.Kilometer, DistanceUnit.Gigameter);
+  
+  if (gigameters >= 1) {
+    return `${gigameters.toFixed(1)} ${DistanceUnit.Gigameter}`;
+  }
+  
+  return `${kilometers >= 10 ? kilometers.toFixed(0) : kilometers.toFixed(1)} ${DistanceUnit.Kilometer}`;
+}
+
+/**
+ * Format a duration in seconds for display
+ * @param seconds Duration in seconds
+ * @returns The formatted duration, e.g. "45s", "1m40s" or "2h05m"
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const remainder = total % 60;
+  
+  if (hours > 0) {
+    return `${hours}h${String(minutes).padStart(2, '0')}m`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m${String(remainder).padStart(2, '0')}s`;
+  }
+  return `${remainder}s`;
+}
+
+/**
+ * Generate turn-by-turn instructions for a planned route
+ * @param route The planned route
+ * @param registry The registry holding the systems the route passes through
+ * @returns The instructions in travel order
+ */
+export function generateRouteInstructions(
+  route: RoutePlan,
+  registry: SystemRegistry = systemRegistry
+): RouteInstruction[] {
+  const steps: Omit<RouteInstruction, 'step' | 'text'>[] = [];
+  const lookup = (waypoint: RouteWaypoint) => registry.getService(waypoint.systemName)?.getObjectById(waypoint.objectId);
+  
+  const start = route.waypoints[0];
+  if (!start) {
+    return [];
+  }
+  
+  // Leave the surface first when starting from a landing zone or outpost
+  const startBody = getSurfaceBody(registry, start.systemName, lookup(start));
+  steps.push({
+    action: startBody ? 'ascend' : 'depart',
+    systemName: start.systemName,
+    objectId: start.objectId,
+    displayName: getDisplayName(registry, start.systemName, lookup(start), start.objectId),
+    bodyName: startBody ? getDisplayName(registry, start.systemName, startBody, startBody.name) : undefined,
+    distance: startBody ? startBody.atmoHeight : null,
+    time: null
+  });
+  
+  route.legs.forEach((leg, index) => {
+    const from = route.waypoints[index];
+    const to = route.waypoints[index + 1];
+    const toObject = lookup(to);
+    const displayName = getDisplayName(registry, to.systemName, toObject, to.objectId);
+  
+    if (leg.type === 'jump') {
+      steps.push({
+        action: 'jump',
+        systemName: to.systemName,
+        objectId: to.objectId,
+        displayName: getDisplayName(registry, from.systemName, lookup(from), from.objectId),
+        distance: null,
+        time: leg.time
+      });
+      return;
+    }
+  
+    // Quantum travel ends above the body, the surface is reached by descending
+    const body = getSurfaceBody(registry, to.systemName, toObject);
+    if (body) {
+      const bodyName = getDisplayName(registry, to.systemName, body, body.name);
+      steps.push({
+        action: 'quantum',
+        systemName: to.systemName,
+        objectId: body.name,
+        displayName: bodyName,
+        distance: leg.distance,
+        time: leg.time
+      });
+      steps.push({
+        action: 'descend',
+        systemName: to.systemName,
+        objectId: to.objectId,
+        displayName,
+        bodyName,
+        distance: body.atmoHeight,
+        time: null
+      });
+    } else {
+      steps.push({
+        action: 'quantum',
+        systemName: to.systemName,
+        objectId: to.objectId,
+        displayName,
+        distance: leg.distance,
+        time: leg.time
+      });
+    }
+  
+    if (to.refuel) {
+      steps.push({
+        action: 'refuel',
+        systemName: to.systemName,
+        objectId: to.objectId,
+        displayName,
+        distance: null,
+        time: null
+      });
+    }
+  });
+  
+  const end = route.waypoints[route.waypoints.length - 1];
+  steps.push({
+    action: 'arrive',
+    systemName: end.systemName,
+    objectId: end.objectId,
+    displayName: getDisplayName(registry, end.systemName, lookup(end), end.objectId),
+    distance: null,
+    time: null
+  });
+  
+  return steps.map((step, index) => ({
+    ...step,
+    step: index + 1,
+    text: describeInstruction(step, name => name)
+  }));
+}
+
+/**
+ * Format instructions as a numbered list
+ * @param instructions The generated instructions
+ * @param format Plain text, or markdown with emphasised place names
+ * @returns One line per instruction
+ */
+export function formatRouteInstructions(
+  instructions: RouteInstruction[],
+  format: RouteInstructionFormat = 'text'
+): string {
+  return instructions
+    .map(instruction => format === 'markdown'
+      ? `${instruction.step}. ${describeInstruction(instruction, name => `**${name}**`)}`
+      : `${instruction.step}. ${instruction.text}`
+    )
+    .join('\n');
+}
+
+/**
+ * Describe a single instruction
+ * @param instruction The instruction to describe
+ * @param emphasise Formats the name of the place the step leads to
+ */
+function describeInstruction(
+  instruction: Omit<RouteInstruction, 'step' | 'text'>,
+  emphasise: (name: string) => string
+): string {
+  const name = emphasise(instruction.displayName);
+  const details = [
+    instruction.distance ? formatDistance(instruction.distance) : null,
+    instruction.time ? `~${formatDuration(instruction.time)}` : null
+  ].filter(detail => detail !== null).join(', ');
+  const suffix = details ? ` (${details})` : '';
+  
+  switch (instruction.action) {
+    case 'depart':
+      return `Depart from ${name}`;
+    case 'ascend':
+      return instruction.distance
+        ? `Ascend from ${name} through the atmosphere of ${instruction.bodyName}${suffix}`
+        : `Lift off from ${name}`;
+    case 'quantum':
+      return `Quantum to ${name}${suffix}`;
+    case 'descend':
+      return instruction.distance
+        ? `Descend through the atmosphere of ${instruction.bodyName}${suffix} to ${name}`
+        : `Descend to ${name}`;
+    case 'refuel':
+      return `Refuel at ${name}`;
+    case 'jump':
+      return `Jump through the ${name} jump point to ${instruction.systemName}${suffix}`;
+    case 'arrive':
+      return `Arrive at ${name}`;
+  }
+}
+
+/**
+ * Get the body a surface location sits on, or null for objects in space
+ */
+function getSurfaceBody(
+  registry: SystemRegistry,
+  systemName: string,
+  object: CelestialObject | undefined
+): CelestialObject | null {
+  if (!object || !SURFACE_TYPES.includes(object.type) || !object.parent) {
+    return null;
+  }
+  
+  return registry.getService(systemName)?.getObjectById(object.parent) || null;
+}
@@ -1,23 +1,99 @@
-import { CelestialObject, Position, Route, RouteAlert, ShipSpecification } from '../models/stanton';
-import { StantonSystem } from '../models/stanton';
+import { Position, Route, RouteAlert, ShipSpecification } from '../models/stanton';
 import { calculateDistance } from './stantonParser';
-import { findAlertsInRadius } from './alertUtils';
+import { buildAlertIndex, findAlertsInRadius, findAlertsNearObject } from './alertUtils';
+import {
+  AlertContribution,
+  assessLegRisk,
+  assessPointSafety,
+  assessRouteRisk,
+  combineRisks,
+  DEFAULT_SAFETY_CORRIDOR,
+  LegRiskProfile,
+  riskToSafetyScore,
+  SafetyOptions
+} from './routeSafety';
+import { StarSystemService } from '../services/StarSystemService';
+import { SystemRegistry } from '../services/SystemRegistry';
+import { isRegionInSystem } from '../services/RegionService';
+import {
+  buildQuantumGraph,
+  findShortestPath,
+  PathCost,
+  QuantumGraph,
+  QuantumGraphNode
+} from './routeGraph';
+import { SpatialIndex } from './SpatialIndex';
+import {
+  calculateQuantumTravelTime,
+  getQuantumDriveProfile,
+  QuantumTravelBreakdown
+} from './quantumTravel';
+import { STATION_SERVICES } from '../data/stationServices';
 
 /**
- * Default quantum travel speed in m/s if not specified
+ * Time in seconds spent in the jump tunnel between two systems
  */
-const DEFAULT_QUANTUM_SPEED = 200000;
+const DEFAULT_JUMP_TRANSIT_TIME = 180;
+
+/**
+ * Risk weight used for a safety preference of 1, where time only breaks ties
+ */
+const SAFEST_RISK_WEIGHT = 1000000;
+
+/**
+ * Leg risk is capped below 1 so that a certain threat still has a finite cost
+ */
+const MAX_LEG_RISK = 0.999999;
+
+/**
+ * Safety preferences sampled when looking for distinct trade-off routes,
+ * from fastest to safest
+ */
+export const DEFAULT_SAFETY_PREFERENCES = [0, 0.25, 0.5, 0.75, 0.9, 1];
 
 /**
  * Structure for a route waypoint with safety information
  */
 export interface RouteWaypoint {
   objectId: string;
-  position: Position;
+  systemName: string; // System the object (and its position) belongs to
+  position: Position; // Absolute position, relative to the system's star
   distance: number; // Distance from previous waypoint
   timeFromPrevious: number; // Time in seconds from previous waypoint
-  nearbyAlerts: RouteAlert[];
+  nearbyAlerts: RouteAlert[]; // Alerts within the safety corridor radius of the waypoint
   safetyScore: number; // 0-100, higher is safer
+  fuelRemaining: number | null; // Quantum fuel left when leaving the waypoint (on arrival at the destination), null without a ship
+  refuel: boolean; // Whether the ship refuels to full capacity at the waypoint
+}
+
+/**
+ * Kind of travel for a route leg
+ */
+export type RouteLegType = 'quantum' | 'jump';
+
+/**
+ * A single leg of a route, either quantum travel within a system
+ * or a jump tunnel transit between two systems
+ */
+export interface RouteLeg {
+  type: RouteLegType;
+  systemName: string; // System the leg starts in
+  fromObjectId: string;
+  toObjectId: string;
+  distance: number;
+  time: number;
+  timeBreakdown?: QuantumTravelBreakdown; // Time per quantum drive stage, quantum legs only
+  fuelRequired: number;
+}
+
+/**
+ * Optional settings for route planning
+ */
+export interface RoutePlanOptions {
+  atTime?: number; // Server time (ms) used to place landing zones and other surface locations
+  safety?: SafetyOptions; // Settings for the corridor safety model
+  safetyPreference?: number; // 0 (fastest, default) to 1 (safest), how much travel time may be traded for safety
+  startingFuel?: number; // Quantum fuel in the tank at the start, defaults to a full tank
 }
 
 /**
@@ -27,6 +103,9 @@ export interface RoutePlan {
   startObjectId: string;
   endObjectId: string;
   waypoints: RouteWaypoint[];
+  legs: RouteLeg[];
+  riskProfile: LegRiskProfile[]; // One entry per leg
+  contributingAlerts: AlertContribution[]; // Every alert adding risk to any leg, most dangerous first
   totalDistance: number;
   totalTime: number;
   fuelRequired: number;
@@ -34,113 +113,355 @@ export interface RoutePlan {
 }
 
 /**
- * Plan a route between two celestial objects
- * @param stantonData The Stanton system data
+ * Plan a route between two celestial objects of the same system
+ * @param system The service holding the loaded system
  * @param startObjectId ID of the starting object
  * @param endObjectId ID of the destination object
  * @param activeAlerts Active alerts in the system
  * @param ship Optional ship specifications for fuel calculations
+ * @param options Optional planning settings
  * @returns A planned route with waypoints and safety information
  */
 export function planRoute(
-  stantonData: StantonSystem,
+  system: StarSystemService,
   startObjectId: string,
   endObjectId: string,
   activeAlerts: RouteAlert[],
-  ship?: ShipSpecification
+  ship?: ShipSpecification,
+  options: RoutePlanOptions = {}
 ): RoutePlan {
   // Get objects
-  const startObject = stantonData[startObjectId];
-  const endObject = stantonData[endObjectId];
+  const startObject = system.getObjectById(startObjectId);
+  const endObject = system.getObjectById(endObjectId);
+  const systemName = system.getSystemName();
   
   if (!startObject || !endObject) {
-    throw new Error('Start or end object not found in Stanton data');
+    throw new Error(`Start or end object not found in ${systemName} data`);
   }
   
-  // For now, we'll do direct point-to-point routing
-  // More complex routing algorithms could be implemented here
-  const distance = calculateDistance(startObject.position, endObject.position);
+  // Find the cheapest chain of unobstructed quantum legs
+  // Raw positions are relative to each object's parent, so resolve them first
+  const graph = buildSystemGraph(system, startObjectId, endObjectId, options);
+  const alertIndex = buildAlertIndex(activeAlerts, options.safety?.now);
+  const costFor = createRiskWeightedCost(graph, startObjectId, endObjectId, alertIndex, ship, options);
+  const route = findRoutePath(graph, startObjectId, endObjectId, costFor, ship, options);
   
-  // Use ship's quantum speed or default
-  const quantumSpeed = ship?.quantumSpeed || DEFAULT_QUANTUM_SPEED;
-  // Time in seconds
-  const time = distance / quantumSpeed;
-  
-  // Calculate fuel required (simple estimate based on distance and ship consumption)
-  const fuelRequired = ship ? distance * ship.fuelConsumption / 1000000 : 0;
+  return buildRoutePlan(system, graph, route, activeAlerts, alertIndex, ship, options);
+}
+
+/**
+ * Build the quantum graph of a system with absolute positions at the planning time
+ */
+function buildSystemGraph(
+  system: StarSystemService,
+  startObjectId: string,
+  endObjectId: string,
+  options: RoutePlanOptions
+): QuantumGraph {
+  return buildQuantumGraph(
+    system.getAllObjects(),
+    object => system.getAbsolutePosition(object.name, options.atTime) || object.position,
+    [startObjectId, endObjectId]
+  );
+}
+
+/**
+ * Convert a safety preference (0-1) into the weight of risk against travel time
+ */
+function getRiskWeight(safetyPreference = 0): number {
+  const preference = Math.min(Math.max(safetyPreference, 0), 1);
+  return preference >= 1 ? SAFEST_RISK_WEIGHT : preference / (1 - preference);
+}
+
+/**
+ * Path search cost model for a part of the route, given the object the part ends at
+ */
+type SegmentCost = (segmentEndId: string) => PathCost;
+
+/**
+ * Create the path search cost model: travel time plus weighted risk
+ * Leg risk is counted as -ln(1 - risk), so summing it along a path ranks paths
+ * exactly like their combined risk. It is scaled by the direct travel time
+ * between start and end to make it comparable to the time of the legs.
+ */
+function createRiskWeightedCost(
+  graph: QuantumGraph,
+  startObjectId: string,
+  endObjectId: string,
+  alertIndex: SpatialIndex<RouteAlert>,
+  ship: ShipSpecification | undefined,
+  options: RoutePlanOptions
+): SegmentCost {
+  const drive = getQuantumDriveProfile(ship);
+  const riskWeight = getRiskWeight(options.safetyPreference);
+  const directTime = calculateQuantumTravelTime(
+    calculateDistance(graph.nodes.get(startObjectId)!.position, graph.nodes.get(endObjectId)!.position),
+    drive,
+    false
+  ).total;
+  const riskScale = riskWeight * Math.max(directTime, 1);
+  const legRisks = new Map<string, number>();
   
-  // Find alerts near the route (simplified - just check start, end, and midpoint)
-  const midPoint = {
-    x: (startObject.position.x + endObject.position.x) / 2,
-    y: (startObject.position.y + endObject.position.y) / 2,
-    z: (startObject.position.z + endObject.position.z) / 2,
+  const getLegRisk = (from: QuantumGraphNode, to: QuantumGraphNode): number => {
+    const key = from.id < to.id ? `${from.id}|${to.id}` : `${to.id}|${from.id}`;
+    let risk = legRisks.get(key);
+    if (risk === undefined) {
+      risk = assessLegRisk(alertIndex, 0, {
+        fromObjectId: from.id,
+        toObjectId: to.id,
+        start: from.position,
+        end: to.position,
+        assess: true
+      }, options.safety).risk;
+      legRisks.set(key, risk);
+    }
+    return risk;
   };
   
-  // Search for alerts within a reasonable radius (1,000,000 meters)
-  const alertRadius = 1000000;
-  const startAlerts = findAlertsInRadius(startObject.position, activeAlerts, alertRadius);
-  const midAlerts = findAlertsInRadius(midPoint, activeAlerts, alertRadius);
-  const endAlerts = findAlertsInRadius(endObject.position, activeAlerts, alertRadius);
-  
-  // Create waypoints (start, mid for now - could be more complex)
-  const waypoints: RouteWaypoint[] = [
-    {
-      objectId: startObjectId,
-      position: startObject.position,
-      distance: 0,
-      timeFromPrevious: 0,
-      nearbyAlerts: startAlerts,
-      safetyScore: calculateWaypointSafety(startAlerts)
-    },
-    {
-      objectId: 'midpoint',
-      position: midPoint,
-      distance: distance / 2,
-      timeFromPrevious: time / 2,
-      nearbyAlerts: midAlerts,
-      safetyScore: calculateWaypointSafety(midAlerts)
+  return segmentEndId => ({
+    edgeCost: (from, to) => {
+      // The drive only needs to cool down when another jump follows
+      const time = calculateQuantumTravelTime(
+        calculateDistance(from.position, to.position),
+        drive,
+        to.id !== segmentEndId
+      ).total;
+      if (riskScale === 0) {
+        return time;
+      }
+      return time - Math.log(1 - Math.min(getLegRisk(from, to), MAX_LEG_RISK)) * riskScale;
     },
-    {
-      objectId: endObjectId,
-      position: endObject.position,
-      distance: distance / 2,
-      timeFromPrevious: time / 2,
-      nearbyAlerts: endAlerts,
-      safetyScore: calculateWaypointSafety(endAlerts)
+    // Cruising the whole way is never slower than the staged jumps
+    heuristic: (node, end) => calculateDistance(node.position, end.position) / drive.quantumSpeed
+  });
+}
+
+/**
+ * Path through the quantum graph and the stops where the ship refuels on the way
+ */
+interface FuelledPath {
+  path: string[];
+  refuelStops: Set<string>;
+}
+
+/**
+ * Find the cheapest path between two objects that the ship's quantum fuel allows
+ * When the tank doesn't last the whole trip, the path is split into hops between
+ * stations offering refuel services, each of which must fit in a full tank
+ * @throws Error if no path exists or the destination is out of fuel range
+ */
+function findRoutePath(
+  graph: QuantumGraph,
+  startObjectId: string,
+  endObjectId: string,
+  costFor: SegmentCost,
+  ship: ShipSpecification | undefined,
+  options: RoutePlanOptions
+): FuelledPath {
+  const direct = findShortestPath(graph, startObjectId, endObjectId, costFor(endObjectId));
+  if (!direct) {
+    throw new Error(`No unobstructed quantum route from ${startObjectId} to ${endObjectId}`);
+  }
+  
+  const fuelPerMeter = ship ? ship.fuelConsumption / 1000000 : 0;
+  if (!ship || fuelPerMeter <= 0) {
+    return { path: direct, refuelStops: new Set() };
+  }
+  
+  const startingFuel = Math.min(options.startingFuel ?? ship.fuelCapacity, ship.fuelCapacity);
+  const position = (id: string) => graph.nodes.get(id)!.position;
+  const pathFuel = (path: string[]) => path.slice(1)
+    .reduce((sum, id, index) => sum + calculateDistance(position(path[index]), position(id)) * fuelPerMeter, 0);
+  
+  if (pathFuel(direct) <= startingFuel) {
+    return { path: direct, refuelStops: new Set() };
+  }
+  
+  // Cheapest hop between two stops that fits in the available fuel,
+  // falling back to the shortest (least fuel) path when the cheapest is too long
+  const findHop = (fromId: string, toId: string, availableFuel: number): { path: string[]; cost: number } | null => {
+    const cost = costFor(toId);
+    const candidates = [findShortestPath(graph, fromId, toId, cost), findShortestPath(graph, fromId, toId)];
+    const path = candidates.find(candidate => candidate && pathFuel(candidate) <= availableFuel);
+    if (!path) {
+      return null;
     }
+    
+    return {
+      path,
+      cost: path.slice(1).reduce((sum, id, index) => sum + cost.edgeCost(graph.nodes.get(path[index])!, graph.nodes.get(id)!), 0)
+    };
+  };
+  
+  // Dijkstra over the start, the destination and every refuel station
+  const stops = [
+    startObjectId,
+    endObjectId,
+    ...Array.from(graph.nodes.keys()).filter(id =>
+      id !== startObjectId && id !== endObjectId && STATION_SERVICES[id]?.includes('refuel')
+    )
   ];
+  const costs = new Map<string, number>([[startObjectId, 0]]);
+  const hops = new Map<string, { fromId: string; path: string[] }>();
+  const settled = new Set<string>();
   
-  // Calculate overall safety score (average of waypoints)
-  const overallSafetyScore = waypoints.reduce((sum, wp) => sum + wp.safetyScore, 0) / waypoints.length;
+  while (!settled.has(endObjectId)) {
+    let currentId = '';
+    let lowestCost = Infinity;
+    for (const id of stops) {
+      const cost = costs.get(id) ?? Infinity;
+      if (!settled.has(id) && cost < lowestCost) {
+        currentId = id;
+        lowestCost = cost;
+      }
+    }
+    if (!currentId) break;
+    settled.add(currentId);
+    
+    const availableFuel = currentId === startObjectId ? startingFuel : ship.fuelCapacity;
+    for (const nextId of stops) {
+      if (settled.has(nextId)) continue;
+      // Detours only get longer, so skip stops out of range even in a straight line
+      if (calculateDistance(position(currentId), position(nextId)) * fuelPerMeter > availableFuel) continue;
+      
+      const hop = findHop(currentId, nextId, availableFuel);
+      if (!hop || lowestCost + hop.cost >= (costs.get(nextId) ?? Infinity)) continue;
+      
+      costs.set(nextId, lowestCost + hop.cost);
+      hops.set(nextId, { fromId: currentId, path: hop.path });
+    }
+  }
+  
+  if (!hops.has(endObjectId)) {
+    throw new Error(`Route from ${startObjectId} to ${endObjectId} exceeds the quantum fuel range of ${ship.name}`);
+  }
+  
+  // Walk back from the destination, chaining the hops
+  const path = [endObjectId];
+  const refuelStops = new Set<string>();
+  let current = endObjectId;
+  while (current !== startObjectId) {
+    const hop = hops.get(current)!;
+    path.unshift(...hop.path.slice(0, -1));
+    if (hop.fromId !== startObjectId) {
+      refuelStops.add(hop.fromId);
+    }
+    current = hop.fromId;
+  }
+  
+  return { path, refuelStops };
+}
+
+/**
+ * Turn a path through the quantum graph into a route plan
+ */
+function buildRoutePlan(
+  system: StarSystemService,
+  graph: QuantumGraph,
+  { path, refuelStops }: FuelledPath,
+  activeAlerts: RouteAlert[],
+  alertIndex: SpatialIndex<RouteAlert>,
+  ship: ShipSpecification | undefined,
+  options: RoutePlanOptions
+): RoutePlan {
+  const systemName = system.getSystemName();
+  
+  // Use ship's quantum drive or default
+  const drive = getQuantumDriveProfile(ship);
+  
+  const safetyOptions = options.safety || {};
+  const alertRadius = safetyOptions.corridorRadius ?? DEFAULT_SAFETY_CORRIDOR;
+  const waypoints: RouteWaypoint[] = [];
+  const legs: RouteLeg[] = [];
+  let fuel = ship ? Math.min(options.startingFuel ?? ship.fuelCapacity, ship.fuelCapacity) : null;
+  
+  for (const [index, objectId] of path.entries()) {
+    const position = graph.nodes.get(objectId)!.position;
+    const distance = index === 0 ? 0 : calculateDistance(waypoints[index - 1].position, position);
+    const refuel = refuelStops.has(objectId);
+    // Time in seconds, the drive cools down between consecutive jumps (or while refuelling)
+    const timeBreakdown = calculateQuantumTravelTime(distance, drive, index < path.length - 1 && !refuel);
+    // Calculate fuel required (simple estimate based on distance and ship consumption)
+    const fuelRequired = ship ? distance * ship.fuelConsumption / 1000000 : 0;
+    const nearbyAlerts = findAlertsInRadius(position, activeAlerts, alertRadius);
+    
+    if (ship && fuel !== null) {
+      fuel = refuel ? ship.fuelCapacity : fuel - fuelRequired;
+    }
+    
+    waypoints.push({
+      objectId,
+      systemName,
+      position,
+      distance,
+      timeFromPrevious: timeBreakdown.total,
+      nearbyAlerts,
+      safetyScore: assessPointSafety(position, nearbyAlerts, safetyOptions),
+      fuelRemaining: fuel,
+      refuel
+    });
+    
+    if (index > 0) {
+      legs.push({
+        type: 'quantum',
+        systemName,
+        fromObjectId: path[index - 1],
+        toObjectId: objectId,
+        distance,
+        time: timeBreakdown.total,
+        timeBreakdown,
+        fuelRequired
+      });
+    }
+  }
+  
+  // Assess every alert along the whole length of each leg
+  const riskProfile = assessRouteRisk(
+    legs.map((leg, index) => ({
+      fromObjectId: leg.fromObjectId,
+      toObjectId: leg.toObjectId,
+      start: waypoints[index].position,
+      end: waypoints[index + 1].position,
+      assess: true
+    })),
+    alertIndex,
+    safetyOptions
+  );
   
   return {
-    startObjectId,
-    endObjectId,
+    startObjectId: path[0],
+    endObjectId: path[path.length - 1],
     waypoints,
-    totalDistance: distance,
-    totalTime: time,
-    fuelRequired,
-    overallSafetyScore
+    legs,
+    riskProfile,
+    contributingAlerts: collectContributions(riskProfile),
+    totalDistance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+    totalTime: legs.reduce((sum, leg) => sum + leg.time, 0),
+    fuelRequired: legs.reduce((sum, leg) => sum + leg.fuelRequired, 0),
+    overallSafetyScore: calculateRouteSafety(riskProfile, waypoints)
   };
 }
 
 /**
- * Calculate safety score for a waypoint based on nearby alerts
- * @param nearbyAlerts Alerts near the waypoint
+ * Calculate the safety score of a whole route from its legs
+ * A route without legs (start equals end) is as safe as its only waypoint
  * @returns Safety score from 0-100 (higher is safer)
  */
-function calculateWaypointSafety(nearbyAlerts: RouteAlert[]): number {
-  if (nearbyAlerts.length === 0) {
-    return 100; // Perfectly safe if no alerts
+function calculateRouteSafety(riskProfile: LegRiskProfile[], waypoints: RouteWaypoint[]): number {
+  if (riskProfile.length === 0) {
+    return waypoints.length > 0 ? waypoints[0].safetyScore : 100;
   }
   
-  // Calculate average safety score of nearby alerts
-  const avgAlertSafety = nearbyAlerts.reduce((sum, alert) => sum + alert.safetyScore, 0) / nearbyAlerts.length;
-  
-  // More alerts = less safe
-  const alertCountFactor = Math.max(0, 1 - (nearbyAlerts.length * 0.1));
-  
-  return avgAlertSafety * alertCountFactor;
+  return riskToSafetyScore(combineRisks(riskProfile.map(leg => leg.risk)));
+}
+
+/**
+ * Collect the alert contributions of all legs, most dangerous first
+ */
+function collectContributions(riskProfile: LegRiskProfile[]): AlertContribution[] {
+  return riskProfile
+    .flatMap(leg => leg.contributions)
+    .sort((a, b) => b.risk - a.risk);
 }
 
 /**
@@ -167,7 +488,7 @@ export function createRoute(
     distance: routePlan.totalDistance,
     estimatedTime: routePlan.totalTime,
     fuelRequired: routePlan.fuelRequired,
-    alertsOnRoute: routePlan.waypoints.flatMap(wp => wp.nearbyAlerts),
+    alertsOnRoute: Array.from(new Set(routePlan.contributingAlerts.map(contribution => contribution.alert))),
     createdAt: now,
     lastUpdated: now,
     createdBy: userId,
@@ -175,88 +496,439 @@ export function createRoute(
   };
 }
 
+/**
+ * A route on the trade-off curve between travel time and safety
+ */
+export interface ParetoRoute {
+  route: RoutePlan;
+  safetyPreference: number; // Lowest sampled preference producing this route
+  risk: number; // Combined risk of the whole route, 0-1
+  extraTime: number; // Seconds added compared to the fastest route
+}
+
+/**
+ * Find the distinct routes between two objects that trade travel time for safety
+ * Each route is planned at one of the sampled safety preferences; routes slower
+ * than another route without being safer are dropped
+ * @param system The service holding the loaded system
+ * @param startObjectId ID of the starting object
+ * @param endObjectId ID of the destination object
+ * @param activeAlerts Active alerts in the system
+ * @param ship Optional ship specifications for fuel calculations
+ * @param options Optional planning settings, the safety preference is ignored
+ * @param safetyPreferences Safety preferences to sample, from 0 to 1
+ * @returns Routes ordered from fastest to safest
+ */
+export function findParetoRoutes(
+  system: StarSystemService,
+  startObjectId: string,
+  endObjectId: string,
+  activeAlerts: RouteAlert[],
+  ship?: ShipSpecification,
+  options: RoutePlanOptions = {},
+  safetyPreferences: number[] = DEFAULT_SAFETY_PREFERENCES
+): ParetoRoute[] {
+  if (!system.getObjectById(startObjectId) || !system.getObjectById(endObjectId)) {
+    throw new Error(`Start or end object not found in ${system.getSystemName()} data`);
+  }
+  
+  // Graph and alert index are shared by every sampled preference
+  const graph = buildSystemGraph(system, startObjectId, endObjectId, options);
+  const alertIndex = buildAlertIndex(activeAlerts, options.safety?.now);
+  const candidates = new Map<string, ParetoRoute>();
+  
+  for (const safetyPreference of [...safetyPreferences].sort((a, b) => a - b)) {
+    const preferenceOptions = { ...options, safetyPreference };
+    const costFor = createRiskWeightedCost(graph, startObjectId, endObjectId, alertIndex, ship, preferenceOptions);
+    const routePath = findRoutePath(graph, startObjectId, endObjectId, costFor, ship, preferenceOptions);
+    
+    const key = routePath.path.join('|');
+    if (candidates.has(key)) continue;
+    
+    const route = buildRoutePlan(system, graph, routePath, activeAlerts, alertIndex, ship, preferenceOptions);
+    candidates.set(key, {
+      route,
+      safetyPreference,
+      risk: combineRisks(route.riskProfile.map(leg => leg.risk)),
+      extraTime: 0
+    });
+  }
+  
+  // Keep the routes no other route beats on both time and risk
+  const routes = Array.from(candidates.values());
+  const paretoRoutes = routes
+    .filter(candidate => !routes.some(other =>
+      other !== candidate &&
+      other.route.totalTime <= candidate.route.totalTime &&
+      other.risk <= candidate.risk &&
+      (other.route.totalTime < candidate.route.totalTime || other.risk < candidate.risk)
+    ))
+    .sort((a, b) => a.route.totalTime - b.route.totalTime);
+  
+  const fastestTime = paretoRoutes.length > 0 ? paretoRoutes[0].route.totalTime : 0;
+  for (const paretoRoute of paretoRoutes) {
+    paretoRoute.extraTime = paretoRoute.route.totalTime - fastestTime;
+  }
+  
+  return paretoRoutes;
+}
+
 /**
  * Find alternative routes between two points to avoid dangerous areas
- * @param stantonData The Stanton system data
+ * @param system The service holding the loaded system
  * @param startObjectId ID of the starting object
  * @param endObjectId ID of the destination object
  * @param activeAlerts Active alerts in the system
- * @param maxAlternatives Maximum number of alternative routes to generate
+ * @param maxAlternatives Maximum number of alternative routes besides the fastest one
  * @returns An array of route plans, ordered by safety (safest first)
  */
 export function findAlternativeRoutes(
-  stantonData: StantonSystem,
+  system: StarSystemService,
   startObjectId: string,
   endObjectId: string,
   activeAlerts: RouteAlert[],
   maxAlternatives = 3
 ): RoutePlan[] {
-  // For now, this is a simplified implementation
-  // In a real-world implementation, this would use more sophisticated algorithms
-  
-  // First, get the direct route
-  const directRoute = planRoute(stantonData, startObjectId, endObjectId, activeAlerts);
+  const paretoRoutes = findParetoRoutes(system, startObjectId, endObjectId, activeAlerts);
   
-  // If the route is perfectly safe, no need for alternatives
-  if (directRoute.overallSafetyScore >= 90) {
-    return [directRoute];
+  // Always keep the fastest route, then the safest alternatives
+  const [fastest, ...alternatives] = paretoRoutes;
+  return [fastest, ...alternatives.slice(Math.max(alternatives.length - maxAlternatives, 0))]
+    .map(paretoRoute => paretoRoute.route)
+    .sort((a, b) => b.overallSafetyScore - a.overallSafetyScore);
+}
+
+/**
+ * Plan a route between objects in different systems, travelling through jump points
+ * @param registry The registry holding the loaded systems
+ * @param startSystem Name of the system the route starts in
+ * @param startObjectId ID of the starting object
+ * @param endSystem Name of the destination system
+ * @param endObjectId ID of the destination object
+ * @param activeAlerts Active alerts in all systems, each leg leaves out those located in other systems
+ * @param ship Optional ship specifications for fuel calculations
+ * @param options Optional planning settings
+ * @returns A route with quantum legs per system and jump legs between them
+ */
+export function planCrossSystemRoute(
+  registry: SystemRegistry,
+  startSystem: string,
+  startObjectId: string,
+  endSystem: string,
+  endObjectId: string,
+  activeAlerts: RouteAlert[],
+  ship?: ShipSpecification,
+  options: RoutePlanOptions = {}
+): RoutePlan {
+  const systemPath = findSystemPath(registry, startSystem, endSystem);
+  if (!systemPath) {
+    throw new Error(`No jump route found from ${startSystem} to ${endSystem}`);
   }
   
-  // Find potential waypoint objects to route through
-  // Look for lagrange points, stations, or other safe points
-  const waypointCandidates = Object.values(stantonData)
-    .filter(obj => 
-      obj.type === 'LagrangePoint' || 
-      obj.type === 'Station' ||
-      obj.parent === 'stantonstar' // Direct children of the star
-    )
-    .filter(obj => obj.name !== startObjectId && obj.name !== endObjectId);
-  
-  // Generate routes through these waypoints
-  const alternativeRoutes: RoutePlan[] = [];
+  // Plan one route per system, ending at the jump point towards the next system
+  const segments: RoutePlan[] = [];
+  let currentObjectId = startObjectId;
+  let fuel = ship ? options.startingFuel ?? ship.fuelCapacity : null;
   
-  for (const waypoint of waypointCandidates) {
-    if (alternativeRoutes.length >= maxAlternatives) break;
+  for (let i = 0; i < systemPath.length; i++) {
+    const { systemName, exit } = systemPath[i];
+    const service = registry.getService(systemName);
+    if (!service) {
+      throw new Error(`System ${systemName} is not loaded`);
+    }
     
-    // Plan route from start to waypoint
-    const routeToWaypoint = planRoute(
-      stantonData,
-      startObjectId,
-      waypoint.name,
-      activeAlerts
-    );
+    const targetObjectId = exit ? exit.jumpPointId : endObjectId;
+    if (currentObjectId !== targetObjectId) {
+      // Each system starts with the fuel left at the end of the previous one
+      const segment = planRoute(service, currentObjectId, targetObjectId, getSystemAlerts(registry, service, activeAlerts), ship, {
+        ...options,
+        startingFuel: fuel ?? undefined
+      });
+      fuel = segment.waypoints[segment.waypoints.length - 1].fuelRemaining;
+      segments.push(segment);
+    }
     
-    // Plan route from waypoint to end
-    const routeFromWaypoint = planRoute(
-      stantonData,
-      waypoint.name,
-      endObjectId,
-      activeAlerts
-    );
+    if (exit) {
+      segments.push(createJumpSegment(registry, systemName, exit.jumpPointId, exit.destinationSystem, exit.destinationJumpPointId, activeAlerts, options.safety || {}, fuel));
+      currentObjectId = exit.destinationJumpPointId;
+    }
+  }
+  
+  return combineRouteSegments(startObjectId, endObjectId, segments);
+}
+
+/**
+ * An object a route must pass through, in a given system
+ */
+export interface RouteStop {
+  systemName: string;
+  objectId: string;
+  refuel?: boolean; // Whether the ship refuels to full capacity at the stop
+}
+
+/**
+ * Plan a route passing through a list of objects in order, possibly across systems
+ * @param registry The registry holding the loaded systems
+ * @param stops Objects to pass through, from start to destination
+ * @param activeAlerts Active alerts in all systems, each leg leaves out those located in other systems
+ * @param ship Optional ship specifications for fuel calculations
+ * @param options Optional planning settings
+ * @returns A single route through every stop
+ */
+export function planRouteThrough(
+  registry: SystemRegistry,
+  stops: RouteStop[],
+  activeAlerts: RouteAlert[],
+  ship?: ShipSpecification,
+  options: RoutePlanOptions = {}
+): RoutePlan {
+  if (stops.length === 0) {
+    throw new Error('A route needs at least one stop');
+  }
+  
+  const segments: RoutePlan[] = [];
+  let fuel = ship ? options.startingFuel ?? ship.fuelCapacity : null;
+  
+  for (let i = 1; i < stops.length; i++) {
+    const from = stops[i - 1];
+    const to = stops[i];
+    const fromService = registry.getService(from.systemName);
+    const sameSystem = fromService !== undefined && fromService === registry.getService(to.systemName);
+    if (sameSystem && from.objectId === to.objectId) continue;
     
-    // Combine the routes
-    const combinedRoute: RoutePlan = {
-      startObjectId,
-      endObjectId,
-      waypoints: [
-        ...routeToWaypoint.waypoints.slice(0, -1), // Exclude the last waypoint of first route
-        ...routeFromWaypoint.waypoints // Include all waypoints of second route
-      ],
-      totalDistance: routeToWaypoint.totalDistance + routeFromWaypoint.totalDistance,
-      totalTime: routeToWaypoint.totalTime + routeFromWaypoint.totalTime,
-      fuelRequired: routeToWaypoint.fuelRequired + routeFromWaypoint.fuelRequired,
-      overallSafetyScore: (routeToWaypoint.overallSafetyScore + routeFromWaypoint.overallSafetyScore) / 2
-    };
+    // Each part starts with the fuel left at the end of the previous one
+    const segmentOptions = { ...options, startingFuel: fuel ?? undefined };
+    const segment = sameSystem
+      ? planRoute(fromService, from.objectId, to.objectId, getSystemAlerts(registry, fromService, activeAlerts), ship, segmentOptions)
+      : planCrossSystemRoute(registry, from.systemName, from.objectId, to.systemName, to.objectId, activeAlerts, ship, segmentOptions);
+    const arrival = segment.waypoints[segment.waypoints.length - 1];
+    if (to.refuel && ship) {
+      arrival.fuelRemaining = ship.fuelCapacity;
+      arrival.refuel = true;
+    }
+    fuel = arrival.fuelRemaining;
+    segments.push(segment);
+  }
+  
+  const start = stops[0];
+  const end = stops[stops.length - 1];
+  if (segments.length === 0) {
+    const service = registry.getService(start.systemName);
+    if (!service) {
+      throw new Error(`System ${start.systemName} is not loaded`);
+    }
+    return planRoute(service, start.objectId, end.objectId, getSystemAlerts(registry, service, activeAlerts), ship, options);
+  }
+  
+  return combineRouteSegments(start.objectId, end.objectId, segments);
+}
+
+/**
+ * Leave out the alerts reported in other loaded systems, judged by the region or object of their location
+ * Alerts whose location can't be matched to any loaded system are kept, as planRoute would
+ */
+function getSystemAlerts(registry: SystemRegistry, service: StarSystemService, alerts: RouteAlert[]): RouteAlert[] {
+  const otherServices = registry.getLoadedSystemNames()
+    .map(systemName => registry.getService(systemName))
+    .filter((other): other is StarSystemService => other !== undefined && other !== service);
+  
+  return alerts.filter(alert =>
+    isRegionInSystem(alert.location.regionId, service) ||
+    !otherServices.some(other => isRegionInSystem(alert.location.regionId, other))
+  );
+}
+
+/**
+ * A system on the way to the destination, and the jump point used to leave it
+ */
+interface SystemPathStep {
+  systemName: string;
+  exit: { jumpPointId: string; destinationSystem: string; destinationJumpPointId: string } | null;
+}
+
+/**
+ * Find the shortest chain of systems (by number of jumps) between two systems
+ * @returns The systems in travel order, or null if they aren't connected
+ */
+function findSystemPath(
+  registry: SystemRegistry,
+  startSystem: string,
+  endSystem: string
+): SystemPathStep[] | null {
+  const start = registry.getService(startSystem)?.getSystemName();
+  const end = registry.getService(endSystem)?.getSystemName();
+  if (!start || !end) {
+    return null;
+  }
+  
+  // Breadth-first search over linked jump points
+  const previous = new Map<string, { systemName: string; exit: NonNullable<SystemPathStep['exit']> }>();
+  const visited = new Set<string>([start]);
+  const queue = [start];
+  
+  while (queue.length > 0) {
+    const systemName = queue.shift()!;
+    if (systemName === end) break;
     
-    // Only add if it's safer than the direct route
-    if (combinedRoute.overallSafetyScore > directRoute.overallSafetyScore + 5) {
-      alternativeRoutes.push(combinedRoute);
+    for (const link of registry.getJumpPointLinks(systemName)) {
+      if (!link.destinationJumpPointId || visited.has(link.destinationSystem)) continue;
+      
+      visited.add(link.destinationSystem);
+      previous.set(link.destinationSystem, {
+        systemName,
+        exit: {
+          jumpPointId: link.jumpPointId,
+          destinationSystem: link.destinationSystem,
+          destinationJumpPointId: link.destinationJumpPointId
+        }
+      });
+      queue.push(link.destinationSystem);
     }
   }
   
-  // Sort routes by safety score (highest/safest first)
-  const allRoutes = [directRoute, ...alternativeRoutes]
-    .sort((a, b) => b.overallSafetyScore - a.overallSafetyScore);
+  if (!visited.has(end)) {
+    return null;
+  }
+  
+  // Walk back from the destination to rebuild the path
+  const path: SystemPathStep[] = [{ systemName: end, exit: null }];
+  let current = end;
+  while (current !== start) {
+    const step = previous.get(current)!;
+    path.unshift(step);
+    current = step.systemName;
+  }
   
-  return allRoutes;
-} 
\ No newline at end of file
+  return path;
+}
+
+/**
+ * Create the route segment for the transit through a jump tunnel
+ */
+function createJumpSegment(
+  registry: SystemRegistry,
+  fromSystem: string,
+  fromJumpPointId: string,
+  toSystem: string,
+  toJumpPointId: string,
+  activeAlerts: RouteAlert[],
+  safetyOptions: SafetyOptions,
+  fuelRemaining: number | null
+): RoutePlan {
+  const fromService = registry.getService(fromSystem);
+  const toService = registry.getService(toSystem);
+  const fromPosition = fromService?.getAbsolutePosition(fromJumpPointId);
+  const toPosition = toService?.getAbsolutePosition(toJumpPointId);
+  if (!fromService || !toService || !fromPosition || !toPosition) {
+    throw new Error(`Jump point ${fromJumpPointId} or ${toJumpPointId} not found`);
+  }
+  
+  const alertRadius = safetyOptions.corridorRadius ?? DEFAULT_SAFETY_CORRIDOR;
+  const fromAlerts = findAlertsNearObject(fromService, fromJumpPointId, getSystemAlerts(registry, fromService, activeAlerts), alertRadius);
+  const toAlerts = findAlertsNearObject(toService, toJumpPointId, getSystemAlerts(registry, toService, activeAlerts), alertRadius);
+  const fromSafety = assessPointSafety(fromPosition, fromAlerts, safetyOptions);
+  const toSafety = assessPointSafety(toPosition, toAlerts, safetyOptions);
+  
+  return {
+    startObjectId: fromJumpPointId,
+    endObjectId: toJumpPointId,
+    waypoints: [
+      {
+        objectId: fromJumpPointId,
+        systemName: fromSystem,
+        position: fromPosition,
+        distance: 0,
+        timeFromPrevious: 0,
+        nearbyAlerts: fromAlerts,
+        safetyScore: fromSafety,
+        fuelRemaining,
+        refuel: false
+      },
+      {
+        objectId: toJumpPointId,
+        systemName: toSystem,
+        position: toPosition,
+        distance: 0, // Tunnel length isn't part of either system's space
+        timeFromPrevious: DEFAULT_JUMP_TRANSIT_TIME,
+        nearbyAlerts: toAlerts,
+        safetyScore: toSafety,
+        fuelRemaining, // Jumps don't use quantum fuel
+        refuel: false
+      }
+    ],
+    legs: [
+      {
+        type: 'jump',
+        systemName: fromSystem,
+        fromObjectId: fromJumpPointId,
+        toObjectId: toJumpPointId,
+        distance: 0,
+        time: DEFAULT_JUMP_TRANSIT_TIME,
+        fuelRequired: 0 // Jumps don't use quantum fuel
+      }
+    ],
+    // Alerts can't be reported inside the tunnel, its ends are covered by the neighbouring legs
+    riskProfile: [
+      {
+        legIndex: 0,
+        fromObjectId: fromJumpPointId,
+        toObjectId: toJumpPointId,
+        risk: 0,
+        safetyScore: 100,
+        contributions: []
+      }
+    ],
+    contributingAlerts: [],
+    totalDistance: 0,
+    totalTime: DEFAULT_JUMP_TRANSIT_TIME,
+    fuelRequired: 0,
+    overallSafetyScore: Math.min(fromSafety, toSafety)
+  };
+}
+
+/**
+ * Chain consecutive route segments into a single route plan
+ * Each segment must start where the previous one ended
+ * @param startObjectId ID of the object the first segment starts at
+ * @param endObjectId ID of the object the last segment ends at
+ * @param segments Route segments in travel order
+ * @returns The combined route plan
+ */
+export function combineRouteSegments(
+  startObjectId: string,
+  endObjectId: string,
+  segments: RoutePlan[]
+): RoutePlan {
+  const waypoints = segments.flatMap((segment, index) => 
+    // Skip the first waypoint of each later segment, it duplicates the previous end
+    index === 0 ? segment.waypoints : segment.waypoints.slice(1)
+  );
+  
+  // Renumber the legs of each segment to their position in the combined route
+  let legOffset = 0;
+  const riskProfile = segments.flatMap(segment => {
+    const profile = segment.riskProfile.map(leg => ({
+      ...leg,
+      legIndex: leg.legIndex + legOffset,
+      contributions: leg.contributions.map(contribution => ({
+        ...contribution,
+        legIndex: contribution.legIndex + legOffset
+      }))
+    }));
+    legOffset += segment.legs.length;
+    return profile;
+  });
+  
+  return {
+    startObjectId,
+    endObjectId,
+    waypoints,
+    legs: segments.flatMap(segment => segment.legs),
+    riskProfile,
+    contributingAlerts: collectContributions(riskProfile),
+    totalDistance: segments.reduce((sum, segment) => sum + segment.totalDistance, 0),
+    totalTime: segments.reduce((sum, segment) => sum + segment.totalTime, 0),
+    fuelRequired: segments.reduce((sum, segment) => sum + segment.fuelRequired, 0),
+    overallSafetyScore: calculateRouteSafety(riskProfile, waypoints)
+  };
+}
@@ -0,0 +1,182 @@
+import { Position, RouteAlert } from '../models/stanton';
+import { calculateAlertDecay, buildAlertIndex } from './alertUtils';
+import { calculateDistance } from './SpaceUtils';
+import { SpatialIndex } from './SpatialIndex';
+
+/**
+ * Default distance (meters) from the flight path within which alerts affect safety
+ */
+export const DEFAULT_SAFETY_CORRIDOR = 1000000;
+
+/**
+ * Default rate at which alerts lose influence over their lifetime
+ */
+const DEFAULT_DECAY_RATE = 0.5;
+
+/**
+ * Default share of its risk an alert from another shard than the pilot's keeps
+ */
+export const DEFAULT_CROSS_SHARD_WEIGHT = 0.25;
+
+/**
+ * Settings for the route safety model
+ */
+export interface SafetyOptions {
+  corridorRadius?: number; // Alerts further than this from the path are ignored
+  decayRate?: number; // Passed to calculateAlertDecay
+  now?: number; // Time used for alert decay, defaults to the current time
+  currentShard?: string | null; // Pilot's shard, alerts from other shards are discounted; all count fully when unset
+  crossShardWeight?: number; // Share of its risk an alert from another shard keeps (0-1)
+}
+
+/**
+ * How much a single alert adds to the risk of a leg
+ */
+export interface AlertContribution {
+  alert: RouteAlert;
+  legIndex: number;
+  distance: number; // Perpendicular distance from the alert to the leg
+  falloff: number; // 1 on the path, 0 at the corridor edge
+  freshness: number; // 1 for new alerts, lower as they decay
+  severity: number; // 1 for the most dangerous alerts (safety score 0)
+  shardWeight: number; // 1 for alerts in the pilot's shard, lower for other shards
+  risk: number; // falloff * freshness * severity * shardWeight
+}
+
+/**
+ * Risk of flying a single leg
+ */
+export interface LegRiskProfile {
+  legIndex: number;
+  fromObjectId: string;
+  toObjectId: string;
+  risk: number; // 0-1, chance-like combination of the contributing alerts
+  safetyScore: number; // 0-100, higher is safer
+  contributions: AlertContribution[];
+}
+
+/**
+ * A leg to assess, with its absolute end positions
+ */
+export interface LegGeometry {
+  fromObjectId: string;
+  toObjectId: string;
+  start: Position;
+  end: Position;
+  assess: boolean; // False for legs outside normal space, e.g. jump tunnels
+}
+
+/**
+ * Combine independent risks: the chance that at least one of them happens
+ */
+export function combineRisks(risks: number[]): number {
+  return 1 - risks.reduce((safe, risk) => safe * (1 - risk), 1);
+}
+
+/**
+ * Convert a 0-1 risk to a 0-100 safety score
+ */
+export function riskToSafetyScore(risk: number): number {
+  return Math.max(0, Math.min(100, 100 * (1 - risk)));
+}
+
+/**
+ * Calculate how much an alert at a given distance from the path adds to the risk
+ * @returns The contribution, or null if the alert is outside the corridor
+ */
+export function calculateAlertContribution(
+  alert: RouteAlert,
+  distance: number,
+  legIndex: number,
+  options: SafetyOptions = {}
+): AlertContribution | null {
+  const corridorRadius = options.corridorRadius ?? DEFAULT_SAFETY_CORRIDOR;
+  if (distance > corridorRadius) {
+    return null;
+  }
+  
+  const falloff = corridorRadius > 0 ? 1 - distance / corridorRadius : 1;
+  const freshness = 1 - calculateAlertDecay(alert, options.decayRate ?? DEFAULT_DECAY_RATE, options.now);
+  // Lower alert safety scores are more dangerous
+  const severity = Math.max(0, Math.min(1, (100 - alert.safetyScore) / 100));
+  const shardWeight = options.currentShard && alert.shardId !== options.currentShard
+    ? options.crossShardWeight ?? DEFAULT_CROSS_SHARD_WEIGHT
+    : 1;
+  
+  return {
+    alert,
+    legIndex,
+    distance,
+    falloff,
+    freshness,
+    severity,
+    shardWeight,
+    risk: falloff * freshness * severity * shardWeight
+  };
+}
+
+/**
+ * Assess the risk along a single leg from every alert in the corridor around it
+ * @param alertIndex Spatial index of the active alerts
+ * @param legIndex Index of the leg in the route
+ * @param leg The leg's geometry
+ * @param options Safety model settings
+ */
+export function assessLegRisk(
+  alertIndex: SpatialIndex<RouteAlert>,
+  legIndex: number,
+  leg: LegGeometry,
+  options: SafetyOptions = {}
+): LegRiskProfile {
+  const corridorRadius = options.corridorRadius ?? DEFAULT_SAFETY_CORRIDOR;
+  const contributions = leg.assess
+    ? alertIndex.alongSegment(leg.start, leg.end, corridorRadius)
+      .map(match => calculateAlertContribution(match.item, match.distance, legIndex, options))
+      .filter((contribution): contribution is AlertContribution => contribution !== null && contribution.risk > 0)
+      .sort((a, b) => b.risk - a.risk)
+    : [];
+  
+  const risk = combineRisks(contributions.map(contribution => contribution.risk));
+  
+  return {
+    legIndex,
+    fromObjectId: leg.fromObjectId,
+    toObjectId: leg.toObjectId,
+    risk,
+    safetyScore: riskToSafetyScore(risk),
+    contributions
+  };
+}
+
+/**
+ * Assess the risk of every leg of a route
+ * @param legs The legs in travel order
+ * @param alerts Active alerts, or an index of them
+ * @param options Safety model settings
+ * @returns The per-leg risk profile
+ */
+export function assessRouteRisk(
+  legs: LegGeometry[],
+  alerts: RouteAlert[] | SpatialIndex<RouteAlert>,
+  options: SafetyOptions = {}
+): LegRiskProfile[] {
+  const alertIndex = Array.isArray(alerts) ? buildAlertIndex(alerts, options.now) : alerts;
+  return legs.map((leg, legIndex) => assessLegRisk(alertIndex, legIndex, leg, options));
+}
+
+/**
+ * Assess the safety of a single point, e.g. a waypoint
+ * @returns A safety score from 0-100 (higher is safer)
+ */
+export function assessPointSafety(
+  position: Position,
+  alerts: RouteAlert[],
+  options: SafetyOptions = {}
+): number {
+  const risks = alerts
+    .map(alert => calculateAlertContribution(alert, calculateDistance(position, alert.location.position), 0, options))
+    .filter((contribution): contribution is AlertContribution => contribution !== null)
+    .map(contribution => contribution.risk);
+  
+  return riskToSafetyScore(combineRisks(risks));
+}
@@ -0,0 +1,370 @@
+import { Route, RouteAlert, ShipSpecification } from '../models/stanton';
+import { SystemRegistry, systemRegistry } from '../services/SystemRegistry';
+import { planRouteThrough, RoutePlan, RoutePlanOptions, RouteStop } from './routePlanner';
+
+/**
+ * Version of the share code format, bumped whenever the payload changes
+ */
+export const ROUTE_SHARE_VERSION = 1;
+
+/**
+ * Hash prefix of links opening a shared route in the app
+ */
+export const ROUTE_LINK_PREFIX = '#/route/';
+
+/**
+ * Planning settings carried by a share code
+ * The reference time of the safety model isn't shared, alerts are judged when the link is opened
+ */
+export type SharedRouteOptions = Pick<RoutePlanOptions, 'atTime' | 'safetyPreference' | 'startingFuel'> & {
+  corridorRadius?: number;
+  decayRate?: number;
+};
+
+/**
+ * Route contents carried by a share code
+ */
+export interface SharedRoute {
+  version: number;
+  stops: RouteStop[]; // Every waypoint from start to destination
+  ship?: ShipSpecification;
+  options: SharedRouteOptions;
+}
+
+/**
+ * Short payload keys of the ship specification fields
+ */
+const SHIP_KEYS: Record<keyof ShipSpecification, string> = {
+  id: 'i',
+  name: 'n',
+  manufacturer: 'm',
+  size: 'z',
+  fuelCapacity: 'fc',
+  fuelConsumption: 'fu',
+  quantumSpeed: 'qs',
+  quantumAcceleration: 'qa',
+  quantumDeceleration: 'qd',
+  quantumSpoolTime: 'qp',
+  quantumCooldownTime: 'qc',
+  scmSpeed: 'ss',
+  cargoCapacity: 'cc'
+};
+
+/**
+ * Ship fields stored as text, every other field is a number
+ */
+const SHIP_TEXT_FIELDS: (keyof ShipSpecification)[] = ['id', 'name', 'manufacturer'];
+
+/**
+ * Ship fields a share code may leave out
+ */
+const SHIP_OPTIONAL_FIELDS: (keyof ShipSpecification)[] = [
+  'quantumAcceleration',
+  'quantumDeceleration',
+  'quantumSpoolTime',
+  'quantumCooldownTime'
+];
+
+/**
+ * Short payload keys of the planning settings
+ */
+const OPTION_KEYS: Record<keyof SharedRouteOptions, string> = {
+  atTime: 't',
+  safetyPreference: 'p',
+  startingFuel: 'f',
+  corridorRadius: 'r',
+  decayRate: 'd'
+};
+
+/**
+ * Describe a planned route for sharing
+ * @param route The planned route
+ * @param ship Optional ship the route was planned for
+ * @param options Optional settings the route was planned with
+ * @returns The shareable route contents
+ */
+export function createSharedRoute(
+  route: RoutePlan,
+  ship?: ShipSpecification,
+  options: RoutePlanOptions = {}
+): SharedRoute {
+  return {
+    version: ROUTE_SHARE_VERSION,
+    stops: route.waypoints.map(waypoint => ({
+      systemName: waypoint.systemName,
+      objectId: waypoint.objectId,
+      refuel: waypoint.refuel || undefined
+    })),
+    ship,
+    options: {
+      atTime: options.atTime,
+      safetyPreference: options.safetyPreference,
+      startingFuel: options.startingFuel,
+      corridorRadius: options.safety?.corridorRadius,
+      decayRate: options.safety?.decayRate
+    }
+  };
+}
+
+/**
+ * Describe a saved route for sharing
+ * Saved routes don't record their system, so it has to be given
+ * @param route The saved route
+ * @param systemName System the route lies in
+ * @param ship Optional ship the route was planned for
+ * @returns The shareable route contents
+ */
+export function createSharedRouteFromSaved(
+  route: Route,
+  systemName: string,
+  ship?: ShipSpecification
+): SharedRoute {
+  const objectIds = route.waypoints.length > 0 ? route.waypoints : [route.startPoint, route.endPoint];
+  
+  return {
+    version: ROUTE_SHARE_VERSION,
+    stops: objectIds.map(objectId => ({ systemName, objectId })),
+    ship,
+    options: {}
+  };
+}
+
+/**
+ * Encode a shared route into a compact, URL-safe share code
+ * @param shared The route contents
+ * @returns The share code, e.g. "1.eyJ3Ijp..."
+ */
+export function encodeSharedRoute(shared: SharedRoute): string {
+  // Group consecutive stops of the same system to avoid repeating its name
+  const systems: [string, string[]][] = [];
+  for (const stop of shared.stops) {
+    const last = systems[systems.length - 1];
+    if (last && last[0] === stop.systemName) {
+      last[1].push(stop.objectId);
+    } else {
+      systems.push([stop.systemName, [stop.objectId]]);
+    }
+  }
+  
+  const payload: Record<string, unknown> = { w: systems };
+  const refuelStops = shared.stops.flatMap((stop, index) => stop.refuel ? [index] : []);
+  if (refuelStops.length > 0) {
+    payload.r = refuelStops;
+  }
+  if (shared.ship) {
+    payload.s = compactFields(shared.ship, SHIP_KEYS);
+  }
+  const options = compactFields(shared.options, OPTION_KEYS);
+  if (Object.keys(options).length > 0) {
+    payload.o = options;
+  }
+  
+  return `${ROUTE_SHARE_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+}
+
+/**
+ * Decode a share code and check its objects exist in the loaded systems
+ * @param code The share code
+ * @param registry The registry holding the loaded systems
+ * @returns The route contents
+ * @throws Error if the code is malformed, from an unknown version or refers to unknown objects
+ */
+export function decodeSharedRoute(code: string, registry: SystemRegistry = systemRegistry): SharedRoute {
+  const separator = code.indexOf('.');
+  const version = Number(code.slice(0, separator));
+  if (separator === -1 || !Number.isInteger(version)) {
+    throw new Error('Malformed route code');
+  }
+  if (version !== ROUTE_SHARE_VERSION) {
+    throw new Error(`Unsupported route code version ${version}`);
+  }
+  
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(code.slice(separator + 1)));
+  } catch {
+    throw new Error('Malformed route code');
+  }
+  if (!isRecord(payload) || !Array.isArray(payload.w)) {
+    throw new Error('Malformed route code');
+  }
+  
+  const stops: RouteStop[] = [];
+  for (const entry of payload.w) {
+    if (!Array.isArray(entry) || typeof entry[0] !== 'string' || !Array.isArray(entry[1])) {
+      throw new Error('Malformed route code');
+    }
+  
+    const [systemName, objectIds] = entry as [string, unknown[]];
+    const service = registry.getService(systemName);
+    if (!service) {
+      throw new Error(`Route uses system ${systemName}, which isn't loaded`);
+    }
+  
+    for (const objectId of objectIds) {
+      if (typeof objectId !== 'string' || !service.getObjectById(objectId)) {
+        throw new Error(`Route uses unknown object ${String(objectId)} in ${service.getSystemName()}`);
+      }
+      stops.push({ systemName: service.getSystemName(), objectId });
+    }
+  }
+  if (stops.length === 0) {
+    throw new Error('Route code has no waypoints');
+  }
+  
+  // Indexes of the stops where the ship refuels
+  if (payload.r !== undefined) {
+    if (!Array.isArray(payload.r)) {
+      throw new Error('Malformed route code');
+    }
+    for (const index of payload.r) {
+      if (!Number.isInteger(index) || !stops[index]) {
+        throw new Error('Malformed route code');
+      }
+      stops[index].refuel = true;
+    }
+  }
+  
+  return {
+    version,
+    stops,
+    ship: payload.s === undefined ? undefined : parseShip(payload.s),
+    options: payload.o === undefined ? {} : parseOptions(payload.o)
+  };
+}
+
+/**
+ * Plan a shared route against the current alerts
+ * @param shared The decoded route contents
+ * @param activeAlerts Active alerts in all systems
+ * @param registry The registry holding the loaded systems
+ * @returns The route plan through every shared waypoint
+ */
+export function planSharedRoute(
+  shared: SharedRoute,
+  activeAlerts: RouteAlert[],
+  registry: SystemRegistry = systemRegistry
+): RoutePlan {
+  const { corridorRadius, decayRate, ...options } = shared.options;
+  
+  return planRouteThrough(registry, shared.stops, activeAlerts, shared.ship, {
+    ...options,
+    safety: { corridorRadius, decayRate }
+  });
+}
+
+/**
+ * Build a link opening a shared route in the app
+ * @param code The share code
+ * @param baseUrl URL of the app, the current page by default
+ * @returns The link
+ */
+export function buildRouteLink(code: string, baseUrl = `${window.location.origin}${window.location.pathname}`): string {
+  return `${baseUrl}${ROUTE_LINK_PREFIX}${code}`;
+}
+
+/**
+ * Read the share code from a link's hash
+ * @param hash The hash part of a URL, e.g. window.location.hash
+ * @returns The share code, or null if the hash doesn't point to a route or isn't validly encoded
+ */
+export function parseRouteLink(hash: string): string | null {
+  if (!isRouteLink(hash)) {
+    return null;
+  }
+  
+  try {
+    const code = decodeURIComponent(hash.slice(ROUTE_LINK_PREFIX.length));
+    return code || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a link's hash points to a shared route, whether or not its code is valid
+ * @param hash The hash part of a URL, e.g. window.location.hash
+ */
+export function isRouteLink(hash: string): boolean {
+  return hash.startsWith(ROUTE_LINK_PREFIX);
+}
+
+/**
+ * Keep only the defined fields, renamed to their short payload keys
+ */
+function compactFields<T extends object>(values: T, keys: Record<keyof T, string>): Record<string, unknown> {
+  const compact: Record<string, unknown> = {};
+  for (const field of Object.keys(keys) as (keyof T)[]) {
+    if (values[field] !== undefined) {
+      compact[keys[field]] = values[field];
+    }
+  }
+  return compact;
+}
+
+/**
+ * Read and validate the ship of a payload
+ */
+function parseShip(value: unknown): ShipSpecification {
+  if (!isRecord(value)) {
+    throw new Error('Malformed ship in route code');
+  }
+  
+  const ship: Record<string, unknown> = {};
+  for (const field of Object.keys(SHIP_KEYS) as (keyof ShipSpecification)[]) {
+    const fieldValue = value[SHIP_KEYS[field]];
+    if (fieldValue === undefined && SHIP_OPTIONAL_FIELDS.includes(field)) continue;
+  
+    const expectedType = SHIP_TEXT_FIELDS.includes(field) ? 'string' : 'number';
+    if (typeof fieldValue !== expectedType) {
+      throw new Error(`Malformed ship field ${field} in route code`);
+    }
+    ship[field] = fieldValue;
+  }
+  
+  return ship as unknown as ShipSpecification;
+}
+
+/**
+ * Read and validate the planning settings of a payload
+ */
+function parseOptions(value: unknown): SharedRouteOptions {
+  if (!isRecord(value)) {
+    throw new Error('Malformed options in route code');
+  }
+  
+  const options: SharedRouteOptions = {};
+  for (const field of Object.keys(OPTION_KEYS) as (keyof SharedRouteOptions)[]) {
+    const fieldValue = value[OPTION_KEYS[field]];
+    if (fieldValue === undefined) continue;
+    if (typeof fieldValue !== 'number' || !Number.isFinite(fieldValue)) {
+      throw new Error(`Malformed option ${field} in route code`);
+    }
+    options[field] = fieldValue;
+  }
+  
+  return options;
+}
+
+/**
+ * Check whether a payload value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Encode UTF-8 text as base64url without padding
+ */
+function toBase64Url(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode base64url (with or without padding) into UTF-8 text
+ */
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, character => character.charCodeAt(0)));
+}
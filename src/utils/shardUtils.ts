@@ -0,0 +1,139 @@
+import { UserSettings } from '../models/stanton';
+import { FirestoreAlert, FirestoreSystemConfig } from '../models/firestore';
+
+/**
+ * Shard settings of the system config
+ */
+export type ShardConfiguration = FirestoreSystemConfig['shardConfiguration'];
+
+/**
+ * Default span of recent confirmations used to infer a user's shard (2 hours)
+ */
+export const DEFAULT_SHARD_INFERENCE_WINDOW = 2 * 60 * 60 * 1000;
+
+/**
+ * Age at which a confirmation counts half as much when inferring a shard (30 minutes)
+ */
+const SHARD_INFERENCE_HALF_LIFE = 30 * 60 * 1000;
+
+/**
+ * Alerts split by whether they were reported in the user's shard
+ */
+export interface ShardAlertView<T> {
+  myShard: T[];
+  otherShards: T[]; // Ordered by shard ID
+}
+
+/**
+ * A guess of the shard a user is playing on
+ */
+export interface ShardInference {
+  shardId: string;
+  confidence: number; // Share of the recent, recency-weighted confirmations made in this shard (0-1)
+  dataPoints: number; // Confirmations in the window across all shards
+}
+
+/**
+ * Check whether a shard ID is one of the configured shards
+ * Any shard is accepted while sharding isn't active
+ * @param shardId The shard ID to check
+ * @param config Shard settings of the system config
+ * @returns Whether the shard is known
+ */
+export function isKnownShard(shardId: string, config: ShardConfiguration): boolean {
+  return !config.active || config.shardNames.includes(shardId);
+}
+
+/**
+ * Set or clear the shard the user is playing on
+ * @param settings The user's settings
+ * @param shardId The shard ID, or null if unknown
+ * @param config Shard settings of the system config
+ * @returns The updated settings
+ * @throws Error if the shard isn't one of the configured shards
+ */
+export function setCurrentShard(
+  settings: UserSettings,
+  shardId: string | null,
+  config: ShardConfiguration
+): UserSettings {
+  if (shardId === null) {
+    const cleared = { ...settings };
+    delete cleared.currentShard;
+    return cleared;
+  }
+  if (!isKnownShard(shardId, config)) {
+    throw new Error(`Unknown shard ${shardId}`);
+  }
+  
+  return { ...settings, currentShard: shardId };
+}
+
+/**
+ * Split alerts into those from the user's shard and those from other shards
+ * Without a current shard every alert is treated as possibly being in the user's shard
+ * @param alerts The alerts to split
+ * @param currentShard The user's shard, or null/undefined if unknown
+ * @returns The alerts of the user's shard and of the other shards
+ */
+export function splitAlertsByShard<T extends { shardId: string }>(
+  alerts: T[],
+  currentShard: string | null | undefined
+): ShardAlertView<T> {
+  if (!currentShard) {
+    return { myShard: [...alerts], otherShards: [] };
+  }
+  
+  return {
+    myShard: alerts.filter(alert => alert.shardId === currentShard),
+    otherShards: alerts
+      .filter(alert => alert.shardId !== currentShard)
+      .sort((a, b) => a.shardId.localeCompare(b.shardId))
+  };
+}
+
+/**
+ * Guess the shard a user is playing on from the alerts they recently confirmed or reported
+ * Recent confirmations count more than older ones
+ * @param alerts Alerts the user may have confirmed
+ * @param userId The ID of the user
+ * @param config Optional shard settings, unknown shards are ignored when given
+ * @param window Span of recent confirmations to consider, in milliseconds
+ * @param now Current time in milliseconds
+ * @returns The most likely shard, or null if the user has no recent confirmations
+ */
+export function inferCurrentShard(
+  alerts: FirestoreAlert[],
+  userId: string,
+  config?: ShardConfiguration,
+  window = DEFAULT_SHARD_INFERENCE_WINDOW,
+  now = Date.now()
+): ShardInference | null {
+  const weights = new Map<string, number>();
+  let total = 0;
+  let dataPoints = 0;
+  
+  for (const alert of alerts) {
+    const confirmedAt = alert.confirmations[userId];
+    if (confirmedAt === undefined || confirmedAt > now || now - confirmedAt > window) continue;
+    if (config && !isKnownShard(alert.shardId, config)) continue;
+  
+    const weight = Math.pow(0.5, (now - confirmedAt) / SHARD_INFERENCE_HALF_LIFE);
+    weights.set(alert.shardId, (weights.get(alert.shardId) ?? 0) + weight);
+    total += weight;
+    dataPoints++;
+  }
+  
+  // Heaviest shard, ties going to the alphabetically first shard
+  const [best] = Array.from(weights.entries())
+    .sort(([shardA, a], [shardB, b]) => b - a || shardA.localeCompare(shardB));
+  if (!best) {
+    return null;
+  }
+  
+  return {
+    shardId: best[0],
+    confidence: best[1] / total,
+    dataPoints
+  };
+}
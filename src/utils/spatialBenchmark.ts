@@ -0,0 +1,127 @@
+import { Position, RouteAlert } from '../models/stanton';
+import { findAlertsInRadius, buildAlertIndex, findAlertsInRadiusIndexed } from './alertUtils';
+import { calculateDistance, calculateDistanceToSegment } from './SpaceUtils';
+
+/**
+ * Timing of one query type, linear scan against the spatial index
+ */
+export interface BenchmarkResult {
+  query: string;
+  linearMs: number;
+  indexedMs: number;
+  speedup: number;
+  resultsMatch: boolean;
+}
+
+/**
+ * Deterministic pseudo-random generator so runs are comparable
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+/**
+ * Generate alerts spread over a Stanton-sized volume
+ */
+function generateAlerts(count: number, random: () => number): RouteAlert[] {
+  const extent = 60_000_000_000; // 60 Gm
+  const now = Date.now();
+  const randomPosition = (): Position => ({
+    x: (random() * 2 - 1) * extent,
+    y: (random() * 2 - 1) * extent,
+    z: (random() * 2 - 1) * extent * 0.05
+  });
+  
+  return Array.from({ length: count }, (_, i) => ({
+    id: `bench_${i}`,
+    location: { position: randomPosition(), regionId: 'benchmark' },
+    alertType: 'pirate',
+    createdBy: 'benchmark',
+    createdAt: now,
+    expiresAt: now + 60 * 60 * 1000,
+    confirmations: 0,
+    disputes: 0,
+    shardId: 'benchmark',
+    safetyScore: 50
+  }));
+}
+
+function time(run: () => void): number {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+}
+
+function sameIds(a: RouteAlert[], b: RouteAlert[]): boolean {
+  const ids = new Set(a.map(alert => alert.id));
+  return a.length === b.length && b.every(alert => ids.has(alert.id));
+}
+
+/**
+ * Compare the spatial index with the linear alert filters
+ * Run from the browser console or a dev script; results are also logged as a table
+ * @param alertCount Number of generated alerts
+ * @param queryCount Number of queries per query type
+ * @returns Timings per query type
+ */
+export function runSpatialIndexBenchmark(alertCount = 10000, queryCount = 500): BenchmarkResult[] {
+  const random = createRandom(42);
+  const alerts = generateAlerts(alertCount, random);
+  const queries = generateAlerts(queryCount, random).map(alert => alert.location.position);
+  const radius = 2_000_000_000; // 2 Gm
+  const corridor = 500_000_000; // 0.5 Gm
+  const k = 10;
+  
+  let index = buildAlertIndex([]);
+  const buildMs = time(() => {
+    index = buildAlertIndex(alerts);
+  });
+  
+  const results: BenchmarkResult[] = [];
+  const compare = (query: string, linear: (i: number) => RouteAlert[], indexed: (i: number) => RouteAlert[]) => {
+    const linearResults: RouteAlert[][] = [];
+    const indexedResults: RouteAlert[][] = [];
+    const linearMs = time(() => queries.forEach((_, i) => linearResults.push(linear(i))));
+    const indexedMs = time(() => queries.forEach((_, i) => indexedResults.push(indexed(i))));
+    
+    results.push({
+      query,
+      linearMs,
+      indexedMs,
+      speedup: indexedMs > 0 ? linearMs / indexedMs : Infinity,
+      resultsMatch: linearResults.every((result, i) => sameIds(result, indexedResults[i]))
+    });
+  };
+  
+  compare(
+    'radius',
+    i => findAlertsInRadius(queries[i], alerts, radius),
+    i => findAlertsInRadiusIndexed(index, queries[i], radius)
+  );
+  
+  compare(
+    `nearest ${k}`,
+    i => [...alerts]
+      .sort((a, b) => calculateDistance(queries[i], a.location.position) - calculateDistance(queries[i], b.location.position))
+      .slice(0, k),
+    i => index.nearest(queries[i], k).map(match => match.item)
+  );
+  
+  compare(
+    'corridor',
+    i => {
+      const end = queries[(i + 1) % queries.length];
+      return alerts.filter(alert => calculateDistanceToSegment(alert.location.position, queries[i], end) <= corridor);
+    },
+    i => index.alongSegment(queries[i], queries[(i + 1) % queries.length], corridor).map(match => match.item)
+  );
+  
+  console.log(`Spatial index built for ${alertCount} alerts in ${buildMs.toFixed(1)} ms`);
+  console.table(results);
+  
+  return results;
+}
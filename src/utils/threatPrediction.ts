@@ -0,0 +1,189 @@
+import { AlertType } from '../models/stanton';
+import { FirestoreAlert, FirestorePrediction, FirestoreSystemConfig } from '../models/firestore';
+
+/**
+ * Prediction settings of the system config
+ */
+export type PredictionSettings = FirestoreSystemConfig['aiPredictionSettings'];
+
+/**
+ * Settings used until the system config has been loaded
+ */
+export const DEFAULT_PREDICTION_SETTINGS: PredictionSettings = {
+  enabled: true,
+  minDataPoints: 5,
+  predictionInterval: 60 * 60 * 1000, // 1 hour
+  maxPredictionAge: 6 * 60 * 60 * 1000 // 6 hours
+};
+
+/**
+ * Default span of history predictions are based on (4 weeks, so every weekday is seen a few times)
+ */
+export const DEFAULT_PREDICTION_HISTORY = 28 * 24 * 60 * 60 * 1000;
+
+const HOUR = 60 * 60 * 1000;
+const HOURS_PER_DAY = 24;
+const DAYS_PER_WEEK = 7;
+
+/**
+ * Pseudo-count added to every hour and weekday slot, so slots without alerts aren't predicted as impossible
+ */
+const SLOT_SMOOTHING = 1;
+
+/**
+ * Optional settings for generating predictions
+ */
+export interface PredictionOptions {
+  history?: number; // Milliseconds of history to learn from, before the prediction time
+}
+
+/**
+ * Alert rates of one alert type in one region
+ */
+interface ThreatHistory {
+  regionId: string;
+  alertType: AlertType;
+  dataPoints: number;
+  hourCounts: number[]; // Alerts per UTC hour of day
+  dayCounts: number[]; // Alerts per UTC day of week, Sunday first
+}
+
+/**
+ * Predict the chance of each alert type occurring in each region from historical alerts
+ * Alerts are counted per UTC hour of day and day of week, so the same input always gives the same predictions
+ * @param alerts Historical alerts, expired or not; alerts created after the prediction time are ignored
+ * @param settings Prediction settings of the system config
+ * @param predictedAt Time the predictions are made at, in milliseconds
+ * @param options Optional prediction settings
+ * @returns One prediction per region and alert type with enough data, most likely first
+ */
+export function generateThreatPredictions(
+  alerts: FirestoreAlert[],
+  settings: PredictionSettings = DEFAULT_PREDICTION_SETTINGS,
+  predictedAt = Date.now(),
+  options: PredictionOptions = {}
+): FirestorePrediction[] {
+  if (!settings.enabled) {
+    return [];
+  }
+  
+  const history = options.history ?? DEFAULT_PREDICTION_HISTORY;
+  const histories = collectThreatHistories(alerts, predictedAt - history, predictedAt);
+  const predictions: FirestorePrediction[] = [];
+  
+  for (const threat of histories) {
+    if (threat.dataPoints < Math.max(1, settings.minDataPoints)) continue;
+  
+    const expectedAlerts = estimateExpectedAlerts(threat, history, predictedAt, settings.predictionInterval);
+    predictions.push({
+      id: `prediction_${threat.regionId}_${threat.alertType}_${predictedAt}`,
+      regionId: threat.regionId,
+      alertType: threat.alertType,
+      // Chance of at least one alert, treating alerts as a Poisson process
+      probability: 1 - Math.exp(-expectedAlerts),
+      confidence: threat.dataPoints / (threat.dataPoints + Math.max(1, settings.minDataPoints)),
+      predictedAt,
+      expiresAt: predictedAt + settings.maxPredictionAge,
+      basedOnHistorical: true,
+      dataPoints: threat.dataPoints
+    });
+  }
+  
+  return predictions.sort((a, b) =>
+    b.probability - a.probability ||
+    a.regionId.localeCompare(b.regionId) ||
+    a.alertType.localeCompare(b.alertType)
+  );
+}
+
+/**
+ * Check whether predictions should be regenerated
+ * @param lastPredictedAt Time of the latest predictions, or null if there are none
+ * @param settings Prediction settings of the system config
+ * @param now Current time in milliseconds
+ * @returns Whether the prediction interval has passed since the latest predictions
+ */
+export function isPredictionDue(
+  lastPredictedAt: number | null,
+  settings: PredictionSettings = DEFAULT_PREDICTION_SETTINGS,
+  now = Date.now()
+): boolean {
+  if (!settings.enabled) {
+    return false;
+  }
+  
+  return lastPredictedAt === null || now - lastPredictedAt >= settings.predictionInterval;
+}
+
+/**
+ * Get the predictions that are still valid
+ * @param predictions Stored predictions
+ * @param now Current time in milliseconds
+ * @returns The predictions that haven't expired yet
+ */
+export function getValidPredictions(predictions: FirestorePrediction[], now = Date.now()): FirestorePrediction[] {
+  return predictions.filter(prediction => prediction.predictedAt <= now && now < prediction.expiresAt);
+}
+
+/**
+ * Count the alerts created in a span of time per region and alert type
+ * Alerts are ordered by ID first, so the input order doesn't change the result
+ */
+function collectThreatHistories(alerts: FirestoreAlert[], from: number, to: number): ThreatHistory[] {
+  const histories = new Map<string, ThreatHistory>();
+  const seen = new Set<string>();
+  const sorted = [...alerts].sort((a, b) => a.id.localeCompare(b.id));
+  
+  for (const alert of sorted) {
+    if (alert.createdAt < from || alert.createdAt >= to || seen.has(alert.id)) continue;
+    seen.add(alert.id);
+  
+    const regionId = alert.location.regionId;
+    const key = `${regionId}|${alert.alertType}`;
+    let threat = histories.get(key);
+    if (!threat) {
+      threat = {
+        regionId,
+        alertType: alert.alertType,
+        dataPoints: 0,
+        hourCounts: new Array(HOURS_PER_DAY).fill(0),
+        dayCounts: new Array(DAYS_PER_WEEK).fill(0)
+      };
+      histories.set(key, threat);
+    }
+  
+    const created = new Date(alert.createdAt);
+    threat.dataPoints++;
+    threat.hourCounts[created.getUTCHours()]++;
+    threat.dayCounts[created.getUTCDay()]++;
+  }
+  
+  return Array.from(histories.values());
+}
+
+/**
+ * Estimate how many alerts to expect in the interval after the prediction time
+ * The average rate is scaled by how busy each hour of the day and day of the week usually is
+ */
+function estimateExpectedAlerts(
+  threat: ThreatHistory,
+  history: number,
+  predictedAt: number,
+  interval: number
+): number {
+  const ratePerHour = threat.dataPoints / (history / HOUR);
+  const hourTotal = threat.dataPoints + SLOT_SMOOTHING * HOURS_PER_DAY;
+  const dayTotal = threat.dataPoints + SLOT_SMOOTHING * DAYS_PER_WEEK;
+  
+  // Walk the interval hour by hour, the last step covering what's left of it
+  let expected = 0;
+  for (let offset = 0; offset < interval; offset += HOUR) {
+    const time = new Date(predictedAt + offset);
+    const hourFactor = (threat.hourCounts[time.getUTCHours()] + SLOT_SMOOTHING) * HOURS_PER_DAY / hourTotal;
+    const dayFactor = (threat.dayCounts[time.getUTCDay()] + SLOT_SMOOTHING) * DAYS_PER_WEEK / dayTotal;
+    const hours = Math.min(HOUR, interval - offset) / HOUR;
+    expected += ratePerHour * hourFactor * dayFactor * hours;
+  }
+  
+  return expected;
+}
@@ -0,0 +1,449 @@
+import { RouteAlert, ShipSpecification } from '../models/stanton';
+import { StarSystemService } from '../services/StarSystemService';
+import { combineRouteSegments, planRoute, RoutePlan, RoutePlanOptions } from './routePlanner';
+
+/**
+ * Largest number of stops ordered by exact search, larger trips use a heuristic
+ */
+export const EXACT_TRIP_SEARCH_LIMIT = 10;
+
+/**
+ * Largest exact search limit callers may ask for, the exact search's memory grows with 2^stops
+ */
+export const MAX_EXACT_TRIP_SEARCH_LIMIT = 16;
+
+/**
+ * Maximum number of improvement passes of the heuristic search
+ */
+const MAX_IMPROVEMENT_PASSES = 50;
+
+/**
+ * A pickup or drop-off location of a delivery trip
+ */
+export interface TripStop {
+  id: string; // Unique ID of the stop, several stops can share an object
+  objectId: string;
+  cargoChange?: number; // SCU loaded (positive) or unloaded (negative) at the stop
+  requires?: string[]; // IDs of stops that must be visited first, e.g. the pickup of cargo dropped here
+}
+
+/**
+ * Optional settings for trip planning
+ */
+export interface TripPlanOptions extends RoutePlanOptions {
+  returnToStart?: boolean; // Whether the trip ends back at the start
+  startingCargo?: number; // SCU already aboard at the start
+  exactSearchLimit?: number; // Largest number of stops ordered by exact search, at most MAX_EXACT_TRIP_SEARCH_LIMIT
+}
+
+/**
+ * Trip planning result
+ */
+export interface TripPlan {
+  stops: TripStop[]; // Stops in visiting order
+  cargoAfterStop: number[]; // SCU aboard when leaving each stop
+  route: RoutePlan; // The whole trip as one chained route
+  exact: boolean; // Whether the order is guaranteed to be the fastest, false when the fuel carried between legs changed a leg
+}
+
+/**
+ * Find the fastest order to visit a set of stops and plan the whole trip
+ * Orders respect the stops' requirements and never exceed the ship's cargo capacity.
+ * Orders are compared with every leg starting on the initial fuel, so an order only counts as
+ * exact when the fuel actually carried into each leg didn't change any leg.
+ * @param system The service holding the loaded system
+ * @param startObjectId ID of the object the trip starts at
+ * @param stops Stops to visit
+ * @param activeAlerts Active alerts in the system
+ * @param ship Optional ship specifications for fuel and cargo limits
+ * @param options Optional planning settings
+ * @returns The ordered stops and the chained route
+ * @throws Error if a stop can't be reached, no order satisfies the requirements,
+ * or the chosen order can't be flown with the fuel carried between stops
+ */
+export function planDeliveryTrip(
+  system: StarSystemService,
+  startObjectId: string,
+  stops: TripStop[],
+  activeAlerts: RouteAlert[],
+  ship?: ShipSpecification,
+  options: TripPlanOptions = {}
+): TripPlan {
+  for (const objectId of [startObjectId, ...stops.map(stop => stop.objectId)]) {
+    if (!system.getObjectById(objectId)) {
+      throw new Error(`Object ${objectId} not found in ${system.getSystemName()} data`);
+    }
+  }
+  
+  const constraints = createTripConstraints(stops, ship, options);
+  const objectIds = [startObjectId, ...stops.map(stop => stop.objectId)];
+  const times = calculateTravelTimes(system, objectIds, activeAlerts, ship, options);
+  const returnToStart = options.returnToStart ?? false;
+  assertStopsReachable(times, objectIds, returnToStart);
+  
+  const exactSearchLimit = Math.min(options.exactSearchLimit ?? EXACT_TRIP_SEARCH_LIMIT, MAX_EXACT_TRIP_SEARCH_LIMIT);
+  const exactSearch = stops.length <= exactSearchLimit;
+  
+  const order = exactSearch
+    ? findExactOrder(times, constraints, returnToStart)
+    : findHeuristicOrder(times, constraints, returnToStart);
+  if (!order) {
+    const unflyable = findUnflyableLegs(times, objectIds);
+    throw new Error(unflyable.length > 0
+      ? `No stop order satisfies the stop requirements and cargo capacity without the legs that can't be flown: ${unflyable.join(', ')}`
+      : 'No stop order satisfies the stop requirements and cargo capacity');
+  }
+  
+  const orderedStops = order.map(index => stops[index]);
+  const cargoAfterStop: number[] = [];
+  let cargo = constraints.startingCargo;
+  for (const stop of orderedStops) {
+    cargo += stop.cargoChange ?? 0;
+    cargoAfterStop.push(cargo);
+  }
+  
+  const tripObjectIds = [startObjectId, ...orderedStops.map(stop => stop.objectId)];
+  if (returnToStart) {
+    tripObjectIds.push(startObjectId);
+  }
+  
+  let route: RoutePlan;
+  try {
+    route = chainTripRoute(system, tripObjectIds, activeAlerts, ship, options);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`The chosen stop order can't be flown with the fuel carried between stops: ${reason}`);
+  }
+  
+  // Legs flown with other fuel than the search assumed may take a different path
+  const orderTime = calculateOrderTime(order, times, returnToStart);
+  const fuelChangedLegs = Math.abs(route.totalTime - orderTime) > orderTime * 1e-9;
+  
+  return {
+    stops: orderedStops,
+    cargoAfterStop,
+    route,
+    exact: exactSearch && !fuelChangedLegs
+  };
+}
+
+/**
+ * Ordering constraints of a trip, with stops referred to by index
+ */
+interface TripConstraints {
+  requiredMasks: number[]; // Per stop, bit mask of the stops to visit first
+  requiredStops: number[][]; // Per stop, indexes of the stops to visit first
+  cargoChanges: number[];
+  startingCargo: number;
+  cargoCapacity: number;
+}
+
+/**
+ * Resolve the stop requirements to indexes and collect the cargo limits
+ */
+function createTripConstraints(
+  stops: TripStop[],
+  ship: ShipSpecification | undefined,
+  options: TripPlanOptions
+): TripConstraints {
+  const indexById = new Map(stops.map((stop, index) => [stop.id, index]));
+  if (indexById.size !== stops.length) {
+    throw new Error('Trip stop IDs must be unique');
+  }
+  
+  const requiredStops = stops.map(stop => (stop.requires || []).map(id => {
+    const index = indexById.get(id);
+    if (index === undefined) {
+      throw new Error(`Stop ${stop.id} requires unknown stop ${id}`);
+    }
+    return index;
+  }));
+  
+  return {
+    // Masks are only used by the exact search, which is limited to few stops
+    requiredMasks: requiredStops.map(indexes => indexes.reduce((mask, index) => mask | (1 << index), 0)),
+    requiredStops,
+    cargoChanges: stops.map(stop => stop.cargoChange ?? 0),
+    startingCargo: options.startingCargo ?? 0,
+    cargoCapacity: ship?.cargoCapacity ?? Infinity
+  };
+}
+
+/**
+ * Check whether a cargo load fits in the ship
+ */
+function isCargoValid(cargo: number, constraints: TripConstraints): boolean {
+  return cargo >= 0 && cargo <= constraints.cargoCapacity;
+}
+
+/**
+ * Calculate the travel time between every pair of trip locations
+ * Every leg starts with the trip's initial fuel, the fuel actually left is only known once the order is chained
+ * Pairs without a possible route get an infinite time
+ * @returns Matrix of times in seconds, indexed like the given objects
+ */
+function calculateTravelTimes(
+  system: StarSystemService,
+  objectIds: string[],
+  activeAlerts: RouteAlert[],
+  ship: ShipSpecification | undefined,
+  options: RoutePlanOptions
+): number[][] {
+  const cache = new Map<string, number>();
+  
+  return objectIds.map(from => objectIds.map(to => {
+    if (from === to) {
+      return 0;
+    }
+  
+    const key = `${from}|${to}`;
+    if (!cache.has(key)) {
+      try {
+        cache.set(key, planRoute(system, from, to, activeAlerts, ship, options).totalTime);
+      } catch {
+        // Out of fuel range or obstructed
+        cache.set(key, Infinity);
+      }
+    }
+    return cache.get(key)!;
+  }));
+}
+
+/**
+ * Check every stop can be reached from some trip location, and the start again when returning to it
+ * @throws Error naming the first location no leg can reach, out of fuel range or obstructed
+ */
+function assertStopsReachable(times: number[][], objectIds: string[], returnToStart: boolean): void {
+  for (let to = 0; to < objectIds.length; to++) {
+    if (to === 0 && !returnToStart) continue;
+  
+    const reachable = times.some((row, from) => from !== to && row[to] !== Infinity);
+    if (!reachable && objectIds.length > 1) {
+      throw new Error(`No leg to ${objectIds[to]} can be flown from ${to === 0 ? 'any stop' : 'the start or any other stop'}, it's out of fuel range or obstructed`);
+    }
+  }
+}
+
+/**
+ * List the legs between trip locations without a possible route, e.g. "stanton1 -> stanton4"
+ */
+function findUnflyableLegs(times: number[][], objectIds: string[]): string[] {
+  const legs: string[] = [];
+  times.forEach((row, from) => row.forEach((time, to) => {
+    if (time === Infinity && objectIds[from] !== objectIds[to]) {
+      legs.push(`${objectIds[from]} -> ${objectIds[to]}`);
+    }
+  }));
+  
+  return Array.from(new Set(legs));
+}
+
+/**
+ * Total travel time of a stop order, index 0 of the matrix being the start
+ */
+function calculateOrderTime(order: number[], times: number[][], returnToStart: boolean): number {
+  let total = 0;
+  let previous = 0;
+  for (const index of order) {
+    total += times[previous][index + 1];
+    previous = index + 1;
+  }
+  
+  return returnToStart ? total + times[previous][0] : total;
+}
+
+/**
+ * Check whether a stop order meets every requirement and cargo limit
+ */
+function isOrderValid(order: number[], constraints: TripConstraints): boolean {
+  const visited = new Set<number>();
+  let cargo = constraints.startingCargo;
+  
+  for (const index of order) {
+    if (constraints.requiredStops[index].some(required => !visited.has(required))) {
+      return false;
+    }
+    cargo += constraints.cargoChanges[index];
+    if (!isCargoValid(cargo, constraints)) {
+      return false;
+    }
+    visited.add(index);
+  }
+  
+  return true;
+}
+
+/**
+ * Find the fastest valid stop order with dynamic programming over visited subsets
+ * The cargo aboard only depends on the visited stops, so the limits fit the subset states
+ * @returns Stop indexes in visiting order, or null if no order is valid
+ */
+function findExactOrder(times: number[][], constraints: TripConstraints, returnToStart: boolean): number[] | null {
+  const stopCount = constraints.cargoChanges.length;
+  const fullMask = (1 << stopCount) - 1;
+  if (stopCount === 0) {
+    return [];
+  }
+  
+  // Cargo aboard after visiting each subset of stops
+  const cargo = new Array<number>(fullMask + 1).fill(constraints.startingCargo);
+  for (let mask = 1; mask <= fullMask; mask++) {
+    const lowest = Math.log2(mask & -mask);
+    cargo[mask] = cargo[mask & (mask - 1)] + constraints.cargoChanges[lowest];
+  }
+  
+  // Fastest time to visit a subset of stops ending at a given stop
+  const best = Array.from({ length: fullMask + 1 }, () => new Array<number>(stopCount).fill(Infinity));
+  const previous = Array.from({ length: fullMask + 1 }, () => new Array<number>(stopCount).fill(-1));
+  
+  for (let stop = 0; stop < stopCount; stop++) {
+    const mask = 1 << stop;
+    if (constraints.requiredMasks[stop] === 0 && isCargoValid(cargo[mask], constraints)) {
+      best[mask][stop] = times[0][stop + 1];
+    }
+  }
+  
+  for (let mask = 1; mask <= fullMask; mask++) {
+    for (let last = 0; last < stopCount; last++) {
+      const time = best[mask][last];
+      if (time === Infinity) continue;
+  
+      for (let next = 0; next < stopCount; next++) {
+        const nextMask = mask | (1 << next);
+        if (nextMask === mask) continue;
+        if ((constraints.requiredMasks[next] & mask) !== constraints.requiredMasks[next]) continue;
+        if (!isCargoValid(cargo[nextMask], constraints)) continue;
+  
+        const nextTime = time + times[last + 1][next + 1];
+        if (nextTime < best[nextMask][next]) {
+          best[nextMask][next] = nextTime;
+          previous[nextMask][next] = last;
+        }
+      }
+    }
+  }
+  
+  let bestLast = -1;
+  let bestTime = Infinity;
+  for (let last = 0; last < stopCount; last++) {
+    const time = best[fullMask][last] + (returnToStart ? times[last + 1][0] : 0);
+    if (time < bestTime) {
+      bestLast = last;
+      bestTime = time;
+    }
+  }
+  if (bestLast === -1) {
+    return null;
+  }
+  
+  // Walk back through the subsets to rebuild the order
+  const order: number[] = [];
+  let mask = fullMask;
+  let last = bestLast;
+  while (last !== -1) {
+    order.unshift(last);
+    const before = previous[mask][last];
+    mask &= ~(1 << last);
+    last = before;
+  }
+  
+  return order;
+}
+
+/**
+ * Find a fast valid stop order for larger trips
+ * Builds a nearest-neighbour order, then moves single stops while that shortens the trip
+ * @returns Stop indexes in visiting order, or null if no valid order was found
+ */
+function findHeuristicOrder(times: number[][], constraints: TripConstraints, returnToStart: boolean): number[] | null {
+  const stopCount = constraints.cargoChanges.length;
+  const order: number[] = [];
+  const visited = new Set<number>();
+  let cargo = constraints.startingCargo;
+  let current = 0;
+  
+  while (order.length < stopCount) {
+    let nextStop = -1;
+    let nextTime = Infinity;
+    for (let stop = 0; stop < stopCount; stop++) {
+      if (visited.has(stop)) continue;
+      if (constraints.requiredStops[stop].some(required => !visited.has(required))) continue;
+      if (!isCargoValid(cargo + constraints.cargoChanges[stop], constraints)) continue;
+  
+      if (times[current][stop + 1] < nextTime) {
+        nextStop = stop;
+        nextTime = times[current][stop + 1];
+      }
+    }
+    if (nextStop === -1) {
+      return null;
+    }
+  
+    order.push(nextStop);
+    visited.add(nextStop);
+    cargo += constraints.cargoChanges[nextStop];
+    current = nextStop + 1;
+  }
+  
+  // Relocate single stops while any move shortens the trip
+  let bestTime = calculateOrderTime(order, times, returnToStart);
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+  
+    for (let from = 0; from < stopCount; from++) {
+      for (let to = 0; to < stopCount; to++) {
+        if (from === to) continue;
+  
+        const candidate = [...order];
+        const [stop] = candidate.splice(from, 1);
+        candidate.splice(to, 0, stop);
+        if (!isOrderValid(candidate, constraints)) continue;
+  
+        const time = calculateOrderTime(candidate, times, returnToStart);
+        if (time < bestTime) {
+          order.splice(0, stopCount, ...candidate);
+          bestTime = time;
+          improved = true;
+        }
+      }
+    }
+  
+    if (!improved) break;
+  }
+  
+  return order;
+}
+
+/**
+ * Plan the legs between consecutive trip locations and chain them
+ * The fuel left at each location carries over to the next leg
+ */
+function chainTripRoute(
+  system: StarSystemService,
+  objectIds: string[],
+  activeAlerts: RouteAlert[],
+  ship: ShipSpecification | undefined,
+  options: RoutePlanOptions
+): RoutePlan {
+  const segments: RoutePlan[] = [];
+  let fuel = ship ? options.startingFuel ?? ship.fuelCapacity : null;
+  
+  for (let i = 1; i < objectIds.length; i++) {
+    if (objectIds[i] === objectIds[i - 1]) continue;
+  
+    const segment = planRoute(system, objectIds[i - 1], objectIds[i], activeAlerts, ship, {
+      ...options,
+      startingFuel: fuel ?? undefined
+    });
+    fuel = segment.waypoints[segment.waypoints.length - 1].fuelRemaining;
+    segments.push(segment);
+  }
+  
+  const startObjectId = objectIds[0];
+  const endObjectId = objectIds[objectIds.length - 1];
+  if (segments.length === 0) {
+    return planRoute(system, startObjectId, endObjectId, activeAlerts, ship, options);
+  }
+  
+  return combineRouteSegments(startObjectId, endObjectId, segments);
+}